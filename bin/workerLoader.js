@@ -0,0 +1,62 @@
+/**
+ * Copyright (c) 2016 Uncharted Software Inc.
+ * http://www.uncharted.software/
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is furnished to do
+ * so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+'use strict';
+
+const SingleEntryPlugin = require('webpack/lib/SingleEntryPlugin');
+const WebWorkerTemplatePlugin = require('webpack/lib/webworker/WebWorkerTemplatePlugin');
+
+/**
+ * Webpack loader that bundles a Web Worker entry in a child compilation and exports the source of the bundle as a
+ * string, so the worker ships inside the single script of the visual and is started from a Blob URL.
+ */
+function workerLoader () {}
+
+workerLoader.pitch = function (request) {
+    const callback = this.async();
+    const options = { filename: 'worker.js', chunkFilename: 'worker.[id].js' };
+    const compiler = this._compilation.createChildCompiler('worker', options);
+
+    this.cacheable(false);
+    compiler.apply(new WebWorkerTemplatePlugin(options));
+    /* `!!` skips the configured loaders so the entry isn't bundled again, the remaining request keeps its own loaders */
+    compiler.apply(new SingleEntryPlugin(this.context, `!!${request}`, 'main'));
+
+    compiler.runAsChild((err, entries, compilation) => {
+        if (err) {
+            return callback(err);
+        }
+
+        const file = entries[0] && entries[0].files[0];
+        if (!file) {
+            return callback(new Error(`The worker ${request} wasn't bundled`));
+        }
+
+        /* the bundle is inlined in the visual, don't emit it next to it */
+        const source = compilation.assets[file].source();
+        delete this._compilation.assets[file];
+        return callback(null, `module.exports = ${JSON.stringify(source)};`);
+    });
+};
+
+module.exports = workerLoader;
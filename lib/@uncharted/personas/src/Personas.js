@@ -34,6 +34,7 @@ import Easing from './revi/plugins/easing/Easing.js';
 import Scheduler from './revi/plugins/Scheduler.js';
 import LayoutStack from './layout/LayoutStack';
 import Breadcrumbs from './layout/breadcrumbs/Breadcrumbs.js';
+import SVGExporter from './layout/SVGExporter.js';
 
 import GeneralConfig from './config/General.js';
 import PersonaConfig from './config/Persona.js';
@@ -42,6 +43,15 @@ import LayoutConfig from './config/Layout.js';
 import nextTick from './revi/core/nextTick.js';
 
 export class Personas extends IBindable {
+    /**
+     * The default ID used for personas aggregating all the personas that are not displayed in a layout.
+     *
+     * @type {String}
+     */
+    static get OTHER_PERSONA_DEFAULT_ID() {
+        return '__personas_other__';
+    }
+
     constructor(element, config = {}) {
         super();
         this.mConfig = {
@@ -76,13 +86,15 @@ export class Personas extends IBindable {
             this.mCanvas.addChild(this.mBreadcrumbs);
         }
 
-        this._forwardWithPriority(1, this.mViewport, [LayoutEvents.LAYOUT_AUTO_ZOOM_CLICKED, LayoutEvents.LAYOUT_ZOOM_IN_CLICKED, LayoutEvents.LAYOUT_ZOOM_OUT_CLICKED]);
+        this._forwardWithPriority(1, this.mViewport, [LayoutEvents.LAYOUT_AUTO_ZOOM_CLICKED, LayoutEvents.LAYOUT_ZOOM_IN_CLICKED, LayoutEvents.LAYOUT_ZOOM_OUT_CLICKED, LayoutEvents.LAYOUT_LOAD_MORE_CLICKED]);
         this._forwardWithPriority(2, this.mViewport, PersonaEvents.PERSONA_SUB_LEVEL_CLICKED);
-        this._forwardWithPriority(3, this.mViewport, [PersonaEvents.PERSONA_CLICKED, PersonaEvents.PERSONA_POINTER_OVER, PersonaEvents.PERSONA_POINTER_OUT]);
+        this._forwardWithPriority(3, this.mViewport, [PersonaEvents.PERSONA_CLICKED, PersonaEvents.PERSONA_POINTER_OVER, PersonaEvents.PERSONA_POINTER_OUT, LayoutEvents.LAYOUT_PERSONA_DROPPED]);
         this._forwardWithPriority(4, this.mViewport, LayoutEvents.LAYOUT_BLANK_SPACE_CLICKED);
 
         this.mLayoutStack.on([LayoutEvents.LAYOUT_ANIMATION_REPULSION_START, LayoutEvents.LAYOUT_ANIMATION_CONTRACTION_START], () => { this.mCanEmitEvents = false; });
         this.mLayoutStack.on([LayoutEvents.LAYOUT_ANIMATION_REPULSION_END, LayoutEvents.LAYOUT_ANIMATION_CONTRACTION_END], () => { this.mCanEmitEvents = true; });
+        this.mLayoutStack.on(LayoutEvents.LAYOUT_ANIMATION_REPULSION_END, () => { this.emit(LayoutEvents.LAYOUT_ANIMATION_REPULSION_END, this); });
+        this.mLayoutStack.on(LayoutEvents.LAYOUT_ANIMATION_CONTRACTION_END, () => { this.emit(LayoutEvents.LAYOUT_ANIMATION_CONTRACTION_END, this); });
     }
 
     destroy() {
@@ -96,9 +108,11 @@ export class Personas extends IBindable {
             PersonaEvents.PERSONA_CLICKED,
             PersonaEvents.PERSONA_SUB_LEVEL_CLICKED,
             LayoutEvents.LAYOUT_BLANK_SPACE_CLICKED,
+            LayoutEvents.LAYOUT_PERSONA_DROPPED,
             LayoutEvents.LAYOUT_AUTO_ZOOM_CLICKED,
             LayoutEvents.LAYOUT_ZOOM_IN_CLICKED,
             LayoutEvents.LAYOUT_ZOOM_OUT_CLICKED,
+            LayoutEvents.LAYOUT_LOAD_MORE_CLICKED,
         ]);
 
         super.destroy();
@@ -130,6 +144,63 @@ export class Personas extends IBindable {
         this.mLayoutStack.type = value;
     }
 
+    get layoutConfig() {
+        return this.mConfig.layout;
+    }
+
+    /**
+     * Updates the layout configuration and re-positions the personas in the current layouts.
+     *
+     * @method updateLayoutConfig
+     * @param {Object} config - An object containing the layout configuration values to update.
+     */
+    updateLayoutConfig(config) {
+        Object.assign(this.mConfig.layout, config);
+        this.mLayoutStack.rebuild();
+    }
+
+    /**
+     * The text displayed in the "load more" control, null if the control is hidden.
+     *
+     * @type {String|null}
+     */
+    get loadMoreText() {
+        return this.mViewport.loadMoreControl.text;
+    }
+
+    /**
+     * Sets the text displayed in the "load more" control. Setting it to null hides the control.
+     *
+     * @param {String|null} value - The new text.
+     */
+    set loadMoreText(value) {
+        this.mViewport.loadMoreControl.text = value;
+    }
+
+    /**
+     * The zoom of the viewport and the position of its content.
+     *
+     * @type {{scale: Number, x: Number, y: Number}}
+     */
+    get zoom() {
+        const position = this.mViewport.contentPosition;
+        return {
+            scale: this.mViewport.contentZoom,
+            x: position.x,
+            y: position.y,
+        };
+    }
+
+    /**
+     * Sets the zoom of the viewport and the position of its content. The scale is clamped to the configured limits.
+     *
+     * @param {{scale: Number, x: Number, y: Number}} value - The new zoom.
+     */
+    set zoom(value) {
+        this.mViewport.zoom(value.scale, 0, 0, false, true);
+        this.mViewport.contentPosition.set(value.x, value.y);
+    }
+
     get deviceScale() {
         return this.mCanvas.deviceScale;
     }
@@ -138,6 +209,16 @@ export class Personas extends IBindable {
         this.mCanvas.deviceScale = value;
     }
 
+    /**
+     * The positions, in layout coordinates, the user moved the personas of the current layout to, keyed by persona ID.
+     *
+     * @type {Object}
+     * @readonly
+     */
+    get manualPositions() {
+        return this.mLayoutStack.layout ? this.mLayoutStack.layout.manualPositions : {};
+    }
+
     /**
      * Emits the specified event and forwards all passed parameters.
      *
@@ -151,7 +232,7 @@ export class Personas extends IBindable {
         }
     }
 
-    loadData(data = null, update = false) {
+    loadData(data = null, update = false, autoZoom = true) {
         this.mData = data;
         this.mLayoutStack.cancelAnimations();
 
@@ -163,7 +244,9 @@ export class Personas extends IBindable {
             if (this.mLayoutStack.layout) {
                 this._loadData(data, this.mLayoutStack.layout);
                 this.mLayoutStack._positionObjects(this.mLayoutStack.layout, true, () => {
-                    this.mViewport.autoZoom(true);
+                    if (autoZoom) {
+                        this.mViewport.autoZoom(true);
+                    }
                     if (this.mBreadcrumbs && this.mBreadcrumbs.length > 0) {
                         this.mBreadcrumbs.updateLastBreadcrumb(this.mLayoutStack.layout);
                     }
@@ -171,7 +254,7 @@ export class Personas extends IBindable {
             } else {
                 const layout = this.mLayoutStack.createNewLayout();
                 this._loadData(data, layout);
-                this.mLayoutStack.pushLayout(layout);
+                this.mLayoutStack.pushLayout(layout, null, true, null, autoZoom);
             }
         }
     }
@@ -202,6 +285,54 @@ export class Personas extends IBindable {
         this.mLayoutStack.popLayout(count, true, autoZoom);
     }
 
+    /**
+     * Updates the data of the layouts in the stack in place, the first entry of the data is loaded in the root layout.
+     * Personas are matched by ID: the personas in the top layout that remain are resized and moved to their new
+     * positions while the new personas fade in and the ones no longer in the data fade out. If there is less data
+     * than layouts, the extra layouts are removed.
+     *
+     * @method updateDataLayers
+     * @param {Array} layersData - The data of each layout, starting at the root layout.
+     * @param {Boolean=} autoZoom - Should the viewport auto zoom to show its contents once the operation is completed.
+     */
+    updateDataLayers(layersData, autoZoom = true) {
+        const count = Math.min(layersData.length, this.mLayoutStack.length);
+        if (!count) {
+            this.loadData(layersData.length ? layersData[0] : null, false, autoZoom);
+            return;
+        }
+
+        this.mData = layersData[0];
+        this.mLayoutStack.cancelAnimations();
+
+        const removeCount = this.mLayoutStack.length - count;
+        const topIndex = removeCount ? -1 : count - 1;
+        for (let i = 0; i < count; ++i) {
+            this.mLayoutStack.invalidatePersonaPositions(i);
+            if (i !== topIndex) {
+                this._loadData(layersData[i], this.mLayoutStack.layoutAt(i));
+            }
+        }
+
+        if (removeCount) {
+            this.mLayoutStack.popLayout(removeCount, true, autoZoom);
+        } else {
+            const layout = this.mLayoutStack.layout;
+            const changes = this._loadData(layersData[topIndex], layout, true);
+            this.mLayoutStack._positionObjects(layout, true, () => {
+                if (autoZoom) {
+                    this.mViewport.autoZoom(true);
+                }
+                if (this.mBreadcrumbs && this.mBreadcrumbs.length > 0) {
+                    this.mBreadcrumbs.updateLastBreadcrumb(layout);
+                }
+            });
+
+            changes.added.forEach(persona => persona.fadeIn());
+            changes.removed.forEach(persona => this._fadeOutPersona(persona, layout));
+        }
+    }
+
     highlight(data, animated = true, append = false) {
         this.mLayoutStack.layout.personas.forEach(wrapper => {
             const persona = wrapper.object;
@@ -221,21 +352,113 @@ export class Personas extends IBindable {
         });
     }
 
-    autoZoom() {
-        this.mViewport.autoZoom(true);
+    /**
+     * Displays the labels of the links of the specified persona in the current layout, null hides all link labels.
+     *
+     * @method showLinkLabels
+     * @param {*} personaId - The ID of the persona whose link labels should be displayed.
+     */
+    showLinkLabels(personaId = null) {
+        if (this.mLayoutStack.layout) {
+            this.mLayoutStack.layout.linkLabelsPersonaId = personaId;
+        }
+    }
+
+    /**
+     * Renders the current view into a new canvas element, without the zoom and "load more" controls.
+     *
+     * @method exportImage
+     * @param {Number} scale - The scale of the image relative to the size of the view.
+     * @param {Boolean=} includeBreadcrumbs - Should the breadcrumbs be included in the image.
+     * @param {Function=} drawOverlay - Called with the context, scaled to the view, and the size of the view to draw extra content.
+     * @returns {HTMLCanvasElement}
+     */
+    exportImage(scale = 1, includeBreadcrumbs = true, drawOverlay = null) {
+        const hiddenNodes = [this.mViewport.zoomControls, this.mViewport.loadMoreControl];
+        if (this.mBreadcrumbs && !includeBreadcrumbs) {
+            hiddenNodes.push(this.mBreadcrumbs);
+        }
+
+        const visibility = hiddenNodes.map(node => node.visible);
+        hiddenNodes.forEach(node => {
+            node.visible = false;
+        });
+        const canvas = this.mCanvas.renderToCanvas(scale, drawOverlay);
+        hiddenNodes.forEach((node, i) => {
+            node.visible = visibility[i];
+        });
+
+        return canvas;
+    }
+
+    /**
+     * Exports the current layer of the view as an SVG document. The breadcrumbs and the controls are not exported.
+     *
+     * @method exportSVG
+     * @param {Function=} drawOverlay - Called with an SVG context and the size of the view to draw extra content.
+     * @returns {String}
+     */
+    exportSVG(drawOverlay = null) {
+        const exporter = new SVGExporter([this.mViewport.zoomControls, this.mViewport.loadMoreControl, this.mBreadcrumbs]);
+        const svg = exporter.export(this.mCanvas, drawOverlay);
+        exporter.release();
+        return svg;
+    }
+
+    /**
+     * Forgets the positions the user moved the personas of the current layout to and positions them again.
+     *
+     * @method resetLayout
+     */
+    resetLayout() {
+        const layout = this.mLayoutStack.layout;
+        if (layout) {
+            layout.manualPositions = {};
+            this.mLayoutStack._positionObjects(layout, true, () => {
+                this.mViewport.autoZoom(true);
+            });
+        }
+    }
+
+    autoZoom(persona = null) {
+        this.mViewport.autoZoom(true, persona ? [persona] : null);
+    }
+
+    zoomIn() {
+        this.mViewport.zoomIn(true);
+    }
+
+    zoomOut() {
+        this.mViewport.zoomOut(true);
     }
 
     resize(width, height) {
         this.mCanvas.size.set(width, height);
     }
 
-    _loadData(data, layout = this.mLayoutStack.layout) {
+    /**
+     * Loads the specified data in a layout, updating the personas already in it by ID. Returns the personas added to
+     * the layout and, when animated, the personas removed from it; the removed personas are retained so they can be
+     * faded out and must be released by the caller.
+     *
+     * @method _loadData
+     * @param {Object} data - The data to load.
+     * @param {Layout=} layout - The layout in which the data will be loaded. Defaults to the top layout.
+     * @param {Boolean=} animated - Should the gauges and sizes of the updated personas be animated. Defaults to false.
+     * @returns {{added: Array, removed: Array}}
+     * @private
+     */
+    _loadData(data, layout = this.mLayoutStack.layout, animated = false) {
         const newPersonas = [];
+        const removedPersonas = [];
         const oldPersonas = layout.personas.slice();
         const midX = layout.pixelSize.width * 0.5;
         const midY = layout.pixelSize.height * 0.5;
         let persona = null;
 
+        /* the positions the user moved the personas to can be saved and loaded along with the data */
+        layout.manualPositions = data.positions || {};
+
         data.personas.forEach(personaData => {
             const old = oldPersonas.findIndex(p => p.object.id === personaData.id);
             const personaScale = layout.personaScale(personaData.scalingFactor);
@@ -243,8 +466,8 @@ export class Personas extends IBindable {
 
             if (old !== -1) {
                 persona = oldPersonas.splice(old, 1)[0].object;
-                persona.updateData(personaData);
-                persona.radius = personaSize;
+                persona.updateData(personaData, animated);
+                persona.updateRadius(personaSize, animated);
             } else {
                 persona = Persona.instance(personaSize, personaData, this.mConfig.persona);
                 persona.position.set(midX, midY);
@@ -254,8 +477,37 @@ export class Personas extends IBindable {
         });
 
         oldPersonas.forEach(wrapper => {
+            if (animated) {
+                removedPersonas.push(wrapper.object.retain());
+            }
             layout.removePersona(wrapper.object);
         });
+
+        return {
+            added: newPersonas,
+            removed: removedPersonas,
+        };
+    }
+
+    /**
+     * Displays a persona removed from the specified layout, at its last position, until it fades out.
+     *
+     * @method _fadeOutPersona
+     * @param {Persona} persona - The persona to fade out, released once the fade completes.
+     * @param {Layout} layout - The layout the persona was removed from.
+     * @private
+     */
+    _fadeOutPersona(persona, layout) {
+        /* the persona is not wrapped by the layout anymore, it is not positioned nor does it forward events */
+        layout.retain();
+        layout.addChild(persona);
+        persona.fadeOut(() => {
+            if (persona.parent === layout) {
+                layout.removeChild(persona);
+            }
+            persona.release();
+            layout.release();
+        });
     }
 
     _forwardWithPriority(priority, bindable, events = null) {
@@ -36,7 +36,13 @@ export const LayoutConfig = {
     zoomControlsFontShadowOffsetX: 0,
     zoomControlsFontShadowOffsetY: 0,
 
+    loadMoreControlWidth: 200,
+    loadMoreControlHeight: 26,
+    loadMoreControlPadding: 8,
+    loadMoreControlFontSize: 12,
+
     viewportDragThreshold: 8,
+    viewportPersonaDragging: false,
     viewportMaxZoomMultiplier: 2,
     viewportMinZoomMultiplier: 0.3,
     viewportZoomInOutMultiplier: 0.3,
@@ -51,6 +57,10 @@ export const LayoutConfig = {
     layoutAuraFillEnabled: false,
     layoutAuraFillColor: '#FEFEFE',
     layoutOrbitalPadding: 10,
+    layoutColaPadding: 0,
+    layoutFixedPadding: 10,
+    layoutForceDirectedPadding: 0,
+    layoutForceDirectedRepulsion: 30,
     layoutPersonaMinRadius: 65,
     layoutPersonaMaxRadius: 250,
     layoutRepulsionScaleMultiplier: 0.2,
@@ -31,6 +31,8 @@ const PersonaConfig = {
     unselectedBorder: 2,
     unselectedBorderColor: '#CEC3B8',
 
+    outlinedBorderColor: '#f0ab21',
+
     outOfFocusAlpha: 0.4,
 
     gaugeThickness: 8,
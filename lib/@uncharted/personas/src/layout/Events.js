@@ -25,7 +25,9 @@ const LayoutEvents = {
     LAYOUT_ZOOM_IN_CLICKED: 'Layout::ZoomControls::ZoomIn',
     LAYOUT_ZOOM_OUT_CLICKED: 'Layout::ZoomControls::ZoomOut',
     LAYOUT_AUTO_ZOOM_CLICKED: 'Layout::ZoomControls::AutoZoom',
+    LAYOUT_LOAD_MORE_CLICKED: 'Layout::LoadMoreControl::Clicked',
     LAYOUT_BLANK_SPACE_CLICKED: 'Layout::BlankSpace::Clicked',
+    LAYOUT_PERSONA_DROPPED: 'Layout::Persona::Dropped',
     LAYOUT_ANIMATION_REPULSION_START: 'Layout::Animation::Repulsion::Start',
     LAYOUT_ANIMATION_REPULSION_END: 'Layout::Animation::Repulsion::End',
     LAYOUT_ANIMATION_CONTRACTION_START: 'Layout::Animation::Contraction::Start',
@@ -23,6 +23,21 @@
 
 import Node from '../revi/graphics/Node.js';
 import LayoutObject from './LayoutObject.js';
+import Point from '../revi/geometry/Point.js';
+
+/**
+ * Length, in pixels, of the arrow heads drawn at the end of directed links, multiplied by the link width.
+ *
+ * @type {Number}
+ */
+const LINK_ARROW_SIZE = 4;
+
+/**
+ * Font used to draw the link labels.
+ *
+ * @type {String}
+ */
+const LINK_LABEL_FONT = '12px Arial';
 
 /**
  * Base class for all persona layouts.
@@ -44,6 +59,8 @@ export class Layout extends Node {
         this.mPersonas = [];
         this.mNewObjects = [];
         this.mIgnoreGlobalScaleChanges = false;
+        this.mLinkLabelsPersonaId = null;
+        this.mManualPositions = {};
     }
 
     /**
@@ -60,6 +77,8 @@ export class Layout extends Node {
         delete this.mPersonas;
         delete this.mNewObjects;
         delete this.mIgnoreGlobalScaleChanges;
+        delete this.mLinkLabelsPersonaId;
+        delete this.mManualPositions;
 
         super.destroy();
     }
@@ -195,6 +214,56 @@ export class Layout extends Node {
         }
     }
 
+    /**
+     * The ID of the persona whose link labels are displayed, null if no labels are displayed.
+     *
+     * @type {*}
+     */
+    get linkLabelsPersonaId() {
+        return this.mLinkLabelsPersonaId;
+    }
+
+    /**
+     * Sets the ID of the persona whose link labels should be displayed, null hides all link labels.
+     *
+     * @param {*} value - The new value.
+     */
+    set linkLabelsPersonaId(value) {
+        if (value !== this.mLinkLabelsPersonaId) {
+            this.mLinkLabelsPersonaId = value;
+            this.needsRedraw();
+        }
+    }
+
+    /**
+     * Can the personas in this layout be moved to positions chosen by the user.
+     *
+     * @type {Boolean}
+     * @readonly
+     */
+    get allowsManualPositions() {
+        return true;
+    }
+
+    /**
+     * The positions, in layout coordinates, the user moved personas to, keyed by persona ID.
+     *
+     * @type {Object}
+     */
+    get manualPositions() {
+        return Object.assign({}, this.mManualPositions);
+    }
+
+    /**
+     * Sets the positions, in layout coordinates, the personas should be placed at instead of their computed positions.
+     * The new positions are applied the next time the objects in this layout are positioned.
+     *
+     * @param {Object} value - The new positions, keyed by persona ID.
+     */
+    set manualPositions(value) {
+        this.mManualPositions = Object.assign({}, value);
+    }
+
     /**
      * Adds a persona to this layout.
      *
@@ -289,6 +358,35 @@ export class Layout extends Node {
         throw new Error('not implemented');
     }
 
+    /**
+     * Keeps the specified persona where the user dropped it the next time the objects in this layout are positioned.
+     * Layouts that arrange the personas around the moved one should override this method and re-position their objects.
+     *
+     * @method dropPersona
+     * @param {Persona} persona - The persona that was moved.
+     */
+    dropPersona(persona) {
+        this.mManualPositions[persona.id] = { x: persona.position.x, y: persona.position.y };
+    }
+
+    /**
+     * Moves the object of the specified wrapper to the position the user placed it at, if any. Returns whether the
+     * object has a manual position.
+     *
+     * @method _applyManualPosition
+     * @param {LayoutObject} wrapper - The wrapper of the object to move.
+     * @returns {Boolean}
+     * @private
+     */
+    _applyManualPosition(wrapper) {
+        const position = this.mManualPositions[wrapper.id];
+        if (position) {
+            wrapper.objectPosition.set(position.x, position.y);
+            return true;
+        }
+        return false;
+    }
+
     /**
      * Called every tick, drawing operations should be performed here.
      *
@@ -300,6 +398,7 @@ export class Layout extends Node {
         const oldAlpha = context.globalAlpha;
         context.globalAlpha = oldAlpha * this.mAlpha;
         const startTime = Date.now();
+        this._drawLinks(context);
         for (this._mID = 0, this._mND = this.mChildren.length; this._mID < this._mND; ++this._mID) {
             this.mChildren[this._mID]._pushTransform(context, matrixStack);
             this.mChildren[this._mID].draw(context, matrixStack, startTime);
@@ -307,6 +406,135 @@ export class Layout extends Node {
         }
         context.globalAlpha = oldAlpha;
     }
+
+    /**
+     * Draws the links between the personas in this layout. Only links with a `width` are drawn, links without rendering
+     * options are only used to position the personas. Links can also specify a `color`, an `alpha`, an `arrow` mode
+     * ('none', 'target' or 'both') and a `label` displayed while their source or target is `linkLabelsPersonaId`.
+     *
+     * @method _drawLinks
+     * @param {CanvasRenderingContext2D} context - The canvas context in which the drawing operations will be performed.
+     * @private
+     */
+    _drawLinks(context) {
+        /* the visible personas are looked up by ID, their link nodes are only computed for the personas with a drawn link */
+        const visiblePersonas = {};
+        this.mPersonas.forEach(wrapper => {
+            if (wrapper.object.visible) {
+                visiblePersonas[wrapper.object.id] = wrapper.object;
+            }
+        });
+        const nodes = {};
+        const getNode = persona => nodes[persona.id] || (nodes[persona.id] = this._getLinkNode(persona));
+
+        const oldAlpha = context.globalAlpha;
+        const labels = [];
+        this.mPersonas.forEach(wrapper => {
+            const persona = wrapper.object;
+            if (!persona.visible) {
+                return;
+            }
+            persona.links.forEach(link => {
+                const targetPersona = link.width > 0 && visiblePersonas[link.target];
+                if (!targetPersona) {
+                    return;
+                }
+                const source = getNode(persona);
+                const target = getNode(targetPersona);
+                const dx = target.x - source.x;
+                const dy = target.y - source.y;
+                const distance = Math.sqrt(dx * dx + dy * dy);
+                if (distance <= source.radius + target.radius) {
+                    return;
+                }
+
+                const ux = dx / distance;
+                const uy = dy / distance;
+                const startX = source.x + ux * source.radius;
+                const startY = source.y + uy * source.radius;
+                const endX = target.x - ux * target.radius;
+                const endY = target.y - uy * target.radius;
+
+                context.globalAlpha = oldAlpha * (link.alpha === undefined ? 1 : link.alpha);
+                context.strokeStyle = link.color || '#000000';
+                context.fillStyle = context.strokeStyle;
+                context.lineWidth = link.width;
+                context.beginPath();
+                context.moveTo(startX, startY);
+                context.lineTo(endX, endY);
+                context.stroke();
+
+                if (link.arrow === 'target' || link.arrow === 'both') {
+                    this._drawLinkArrow(context, endX, endY, ux, uy, link.width);
+                }
+                if (link.arrow === 'both') {
+                    this._drawLinkArrow(context, startX, startY, -ux, -uy, link.width);
+                }
+
+                if (link.label && this.mLinkLabelsPersonaId !== null && (persona.id === this.mLinkLabelsPersonaId || link.target === this.mLinkLabelsPersonaId)) {
+                    labels.push({ text: link.label, x: (startX + endX) * 0.5, y: (startY + endY) * 0.5 });
+                }
+            });
+        });
+
+        if (labels.length) {
+            context.globalAlpha = oldAlpha;
+            context.font = LINK_LABEL_FONT;
+            context.textAlign = 'center';
+            context.textBaseline = 'middle';
+            labels.forEach(label => {
+                const width = context.measureText(label.text).width;
+                context.fillStyle = '#ffffff';
+                context.fillRect(label.x - width * 0.5 - 2, label.y - 8, width + 4, 16);
+                context.fillStyle = '#222222';
+                context.fillText(label.text, label.x, label.y);
+            });
+        }
+        context.globalAlpha = oldAlpha;
+    }
+
+    /**
+     * Computes the center and radius of the specified persona in the coordinate space of this layout.
+     *
+     * @method _getLinkNode
+     * @param {Persona} persona - The persona to compute.
+     * @returns {{x: Number, y: Number, radius: Number}}
+     * @private
+     */
+    _getLinkNode(persona) {
+        const anchor = persona.pixelAnchor;
+        const center = this.globalToLocalPoint(persona.localToGlobalCoords(anchor.x, anchor.y), Point.instance());
+        const edge = this.globalToLocalPoint(persona.localToGlobalCoords(anchor.x + persona.radius, anchor.y), Point.instance());
+        return {
+            x: center.x,
+            y: center.y,
+            radius: Math.sqrt((edge.x - center.x) * (edge.x - center.x) + (edge.y - center.y) * (edge.y - center.y)),
+        };
+    }
+
+    /**
+     * Draws an arrow head pointing in the specified direction with its tip at the given point.
+     *
+     * @method _drawLinkArrow
+     * @param {CanvasRenderingContext2D} context - The canvas context in which the drawing operations will be performed.
+     * @param {Number} x - The x coordinate of the arrow tip.
+     * @param {Number} y - The y coordinate of the arrow tip.
+     * @param {Number} ux - The x component of the unit vector the arrow points to.
+     * @param {Number} uy - The y component of the unit vector the arrow points to.
+     * @param {Number} width - The width of the link the arrow is drawn for.
+     * @private
+     */
+    _drawLinkArrow(context, x, y, ux, uy, width) {
+        const size = LINK_ARROW_SIZE * Math.max(width, 1.5);
+        const baseX = x - ux * size;
+        const baseY = y - uy * size;
+        context.beginPath();
+        context.moveTo(x, y);
+        context.lineTo(baseX - uy * size * 0.5, baseY + ux * size * 0.5);
+        context.lineTo(baseX + uy * size * 0.5, baseY - ux * size * 0.5);
+        context.closePath();
+        context.fill();
+    }
 }
 
 export default Layout;
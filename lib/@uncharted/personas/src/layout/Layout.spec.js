@@ -130,6 +130,67 @@ describe ('/layout/Layout', () => {
         instance.cancelAnimations();
     });
 
+    it ('keeps the positions of dropped personas', () => {
+        const persona = firstPersonas[0];
+        expect(instance.allowsManualPositions).to.equal(true);
+        expect(instance.manualPositions).to.deep.equal({});
+        persona.position.set(4, 6);
+        instance.dropPersona(persona);
+        expect(instance.manualPositions).to.deep.equal({ id_0: { x: 4, y: 6 } });
+        instance.manualPositions = {};
+        expect(instance.manualPositions).to.deep.equal({});
+    });
+
+    it ('sets/gets linkLabelsPersonaId', () => {
+        expect(instance.linkLabelsPersonaId).to.equal(null);
+        instance.linkLabelsPersonaId = 'id_0';
+        expect(instance.linkLabelsPersonaId).to.equal('id_0');
+        instance.linkLabelsPersonaId = null;
+        expect(instance.linkLabelsPersonaId).to.equal(null);
+    });
+
+    it ('draws the links between the visible personas with their arrows and labels', () => {
+        const createPersona = (id, links) => new Persona(10, Object.assign({}, personaData, { id: id, links: links }), PersonaConfig);
+        const personas = [
+            createPersona('a', [
+                { target: 'b', strength: 1, width: 2, arrow: 'both', label: 'a to b' },
+                { target: 'c', strength: 1, width: 2, arrow: 'target' },
+                { target: 'b', strength: 1 },
+            ]),
+            createPersona('b', [{ target: 'a', strength: 1, width: 1, arrow: 'target', label: 'b to a' }]),
+            createPersona('c', [{ target: 'a', strength: 1, width: 1 }]),
+        ];
+        personas.forEach((persona, i) => {
+            persona.position.set(i * 100, 0);
+            instance.addPersona(persona);
+        });
+        personas[2].visible = false;
+
+        const context = {
+            globalAlpha: 1,
+            beginPath: sinon.spy(),
+            closePath: sinon.spy(),
+            moveTo: sinon.spy(),
+            lineTo: sinon.spy(),
+            stroke: sinon.spy(),
+            fill: sinon.spy(),
+            fillRect: sinon.spy(),
+            fillText: sinon.spy(),
+            measureText: () => ({ width: 10 }),
+        };
+        instance.linkLabelsPersonaId = 'a';
+        instance._drawLinks(context);
+
+        /* the links of the hidden persona and the links without a width are not drawn */
+        expect(context.stroke.callCount).to.equal(2);
+        expect(context.fill.callCount).to.equal(3);
+        expect(context.fillText.args.map(args => args[0])).to.deep.equal(['a to b', 'b to a']);
+        expect(context.globalAlpha).to.equal(1);
+
+        instance.linkLabelsPersonaId = null;
+        instance.removeAllPersonas();
+    });
+
     it ('implements personaScale', () => {
         expect(instance.personaScale(0.5)).to.equal(0.5);
     });
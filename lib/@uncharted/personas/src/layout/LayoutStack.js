@@ -27,7 +27,9 @@ import Scheduler from '../revi/plugins/Scheduler';
 import Layout from './Layout';
 import ForceDirectedLayout from './d3/ForceDirectedLayout';
 import ColaLayout from './cola/ColaLayout';
+import FixedLayout from './fixed/FixedLayout';
 import OrbitalLayout from './orbital/OrbitalLayout';
+import PhysicalLayout from './physical/PhysicalLayout';
 import Easing from '../revi/plugins/easing/Easing';
 import EasingEvents from '../revi/plugins/easing/Events';
 import Point from '../revi/geometry/Point';
@@ -80,6 +82,16 @@ export class LayoutStack extends IBindable {
         return this.mStack.length ? this.mStack[this.mStack.length - 1].layout : null;
     }
 
+    /**
+     * Returns the number of layouts in this stack.
+     *
+     * @type {Number}
+     * @readonly
+     */
+    get length() {
+        return this.mStack.length;
+    }
+
     /**
      * Returns the type of layouts in this stack.
      *
@@ -104,23 +116,7 @@ export class LayoutStack extends IBindable {
                 this.mType = value;
             }
 
-            if (this.mStack.length) {
-                for (let i = 0, n = this.mStack.length; i < n; ++i) {
-                    const oldLayout = this.mStack[i].layout;
-                    const replacement = this._replaceLayout(oldLayout, this.mType);
-                    this.mViewport.replaceChild(oldLayout, replacement);
-                    this.mStack[i].layout = replacement.retain();
-                    this.mStack[i].personaPositions = null;
-                    oldLayout.release();
-                }
-
-                this._positionObjects(this.layout, true, () => {
-                    this.mViewport.autoZoom(true);
-                    if (this.mBreadcrumbs && this.mBreadcrumbs.length > 0) {
-                        this.mBreadcrumbs.updateLastBreadcrumb(this.layout);
-                    }
-                });
-            }
+            this._rebuildLayouts();
         }
     }
 
@@ -134,6 +130,42 @@ export class LayoutStack extends IBindable {
         return (this.mConfig.layoutType instanceof Layout) ? this.mConfig.layoutType : this._getLayoutSystem(this.mType);
     }
 
+    /**
+     * Replaces all the layouts in this stack with new instances of the current type so configuration changes are applied.
+     * Custom layouts are left untouched.
+     *
+     * @method rebuild
+     */
+    rebuild() {
+        if (this.mType !== 'custom') {
+            this._rebuildLayouts();
+        }
+    }
+
+    /**
+     * Returns the layout at the specified index of this stack, the root layout is at index zero.
+     *
+     * @method layoutAt
+     * @param {Number} index - The index of the layout.
+     * @returns {Layout|null}
+     */
+    layoutAt(index) {
+        return index >= 0 && index < this.mStack.length ? this.mStack[index].layout : null;
+    }
+
+    /**
+     * Forgets the saved positions of the personas in the layout at the specified index, used when the personas in
+     * the layout change. The personas are positioned again when the layouts above it are popped.
+     *
+     * @method invalidatePersonaPositions
+     * @param {Number} index - The index of the layout.
+     */
+    invalidatePersonaPositions(index) {
+        if (index >= 0 && index < this.mStack.length) {
+            this.mStack[index].personaPositions = null;
+        }
+    }
+
     /**
      * Recursively cancels all the animations playing in this layout stack.
      *
@@ -395,10 +427,21 @@ export class LayoutStack extends IBindable {
     _getLayoutSystem(type) {
         switch (type) {
             case 'cola':
-                return ColaLayout.instance(this.mViewport.pixelSize.width, this.mViewport.pixelSize.height);
+                return ColaLayout.instance(this.mViewport.pixelSize.width, this.mViewport.pixelSize.height, this.mConfig.layoutColaPadding);
+
+            case 'fixed':
+                return FixedLayout.instance(this.mViewport.pixelSize.width, this.mViewport.pixelSize.height, this.mConfig.layoutFixedPadding);
 
             case 'force-directed':
-                return ForceDirectedLayout.instance(this.mViewport.pixelSize.width, this.mViewport.pixelSize.height);
+                return ForceDirectedLayout.instance(
+                    this.mViewport.pixelSize.width,
+                    this.mViewport.pixelSize.height,
+                    this.mConfig.layoutForceDirectedRepulsion,
+                    this.mConfig.layoutForceDirectedPadding
+                );
+
+            case 'physical':
+                return PhysicalLayout.instance(this.mViewport.pixelSize.width, this.mViewport.pixelSize.height);
 
             case 'orbital':
             default:
@@ -406,9 +449,35 @@ export class LayoutStack extends IBindable {
         }
     }
 
+    /**
+     * Replaces every layout in the stack with a new instance of the current layout type and re-positions the top most layout.
+     *
+     * @method _rebuildLayouts
+     * @private
+     */
+    _rebuildLayouts() {
+        if (this.mStack.length) {
+            for (let i = 0, n = this.mStack.length; i < n; ++i) {
+                const oldLayout = this.mStack[i].layout;
+                const replacement = this._replaceLayout(oldLayout, this.mType);
+                this.mViewport.replaceChild(oldLayout, replacement);
+                this.mStack[i].layout = replacement.retain();
+                this.mStack[i].personaPositions = null;
+                oldLayout.release();
+            }
+
+            this._positionObjects(this.layout, true, () => {
+                this.mViewport.autoZoom(true);
+                if (this.mBreadcrumbs && this.mBreadcrumbs.length > 0) {
+                    this.mBreadcrumbs.updateLastBreadcrumb(this.layout);
+                }
+            });
+        }
+    }
+
     /**
      * Replaces the specified layout with a new instance of the specified layout type. This method also transfers all
-     * personas from the old layout to the new layout.
+     * personas, and the positions the user moved them to, from the old layout to the new layout.
      *
      * @mrthod _replaceLayout
      * @param {Layout} layout - The layout to replace.
@@ -427,6 +496,7 @@ export class LayoutStack extends IBindable {
         const personas = layout.personas.map(wrapper => wrapper.object);
         personas.forEach(persona => newLayout.addPersona(persona));
         newLayout.position.set(layout.position.x, layout.position.y);
+        newLayout.manualPositions = layout.manualPositions;
         newLayout.clearNewObjects();
         layout.removeAllPersonas();
 
@@ -0,0 +1,202 @@
+/**
+ * Copyright (c) 2017 Uncharted Software Inc.
+ * http://www.uncharted.software/
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is furnished to do
+ * so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import Node from '../revi/graphics/Node.js';
+import Label from '../revi/text/Label.js';
+import Rectangle from '../revi/graphics/primitives/Rectangle.js';
+import InputManager from '../revi/plugins/input/InputManager.js';
+import InputEvents from '../revi/plugins/input/Events.js';
+import PersonaLabel from '../persona/Label.js';
+import Arial from '../config/fonts/Arial.js';
+import Events from './Events.js';
+
+/**
+ * Class to create and handle the "load more" button placed on a viewport. The control is hidden while it has no text.
+ *
+ * @class LoadMoreControl
+ */
+export class LoadMoreControl extends Node {
+    /**
+     * @constructor
+     * @param {Object} config - An object containing the configuration options for this instance.
+     */
+    constructor(config) {
+        super(config.loadMoreControlWidth, config.loadMoreControlHeight);
+
+        this.mConfig = config;
+        this.mTrackingPointer = null;
+        this.mLabel = null;
+
+        const background = Rectangle.instance(this.size.width, this.size.height, {
+            fillEnabled: true,
+            fillColor: this.mConfig.zoomControlsBackgroundColor,
+            stroke: this.mConfig.zoomControlsBorderSize,
+            strokeColor: this.mConfig.zoomControlsBorderColor,
+            strokeType: Rectangle.STROKE_OUTER,
+        });
+        background.anchor.set(0, 0);
+        this.addChild(background);
+
+        this.visible = false;
+    }
+
+    /**
+     * Destroys this object. Called automatically when the reference count of this object reaches zero.
+     *
+     * @method destroy
+     */
+    destroy() {
+        delete this.mConfig;
+        delete this.mTrackingPointer;
+        delete this.mLabel;
+
+        super.destroy();
+    }
+
+    /**
+     * The text displayed in this control, null if the control is hidden.
+     *
+     * @type {String|null}
+     */
+    get text() {
+        return this.mLabel && this.visible ? this.mLabel.text : null;
+    }
+
+    /**
+     * Sets the text displayed in this control. Setting it to null, or an empty string, hides the control.
+     *
+     * @param {String|null} value - The new text.
+     */
+    set text(value) {
+        if (value) {
+            if (this.mLabel) {
+                this.mLabel.text = value;
+            } else {
+                const padding = this.mConfig.loadMoreControlPadding;
+                this.mLabel = Label.instance(this.size.width - padding * 2, this.size.height, value, PersonaLabel.PERSONA_NAME_FONT, Arial, {
+                    color: this.mConfig.zoomControlsFontColor,
+                    fontSize: this.mConfig.loadMoreControlFontSize,
+                    alignment: Label.TEXT_ALIGNMENT.CENTER,
+                    truncateMode: Label.TEXT_TRUNCATING_MODE.ELLIPSES,
+                    multiLineMode: Label.TEXT_MULTI_LINE_MODE.SINGLE_LINE,
+                    renderingBackend: Label.TEXT_RENDERING_BACKEND.CANVAS,
+                    autoSize: true,
+                });
+                this.mLabel.position.set('50%', '50%');
+                this.addChild(this.mLabel);
+            }
+            this.visible = true;
+        } else {
+            this.mTrackingPointer = null;
+            this.visible = false;
+        }
+    }
+
+    /**
+     * Called every time the object is added to the currently running scene graph.
+     *
+     * @method onEnter
+     * @param {Symbol} reviContext - A unique symbol that identifies the rendering context of this object.
+     */
+    onEnter(reviContext) {
+        const inputManager = InputManager.instanceForContext(reviContext);
+        inputManager.on(InputEvents.INPUT_POINTER_BEGAN, inputManager.safeBind(this._handlePointerBegan, this));
+        inputManager.on(InputEvents.INPUT_POINTER_MOVED, inputManager.safeBind(this._handlePointerMoved, this));
+        inputManager.on([InputEvents.INPUT_POINTER_ENDED, InputEvents.INPUT_POINTER_CANCELLED], inputManager.safeBind(this._handlePointerEnded, this));
+        super.onEnter(reviContext);
+    }
+
+    /**
+     * Called when this objects is removed from the scene graph.
+     *
+     * @method onExit
+     */
+    onExit() {
+        const inputManager = InputManager.instanceForContext(this.reviContext);
+        inputManager.off(InputEvents.INPUT_POINTER_BEGAN, this._handlePointerBegan, this);
+        inputManager.off(InputEvents.INPUT_POINTER_MOVED, this._handlePointerMoved, this);
+        inputManager.off([InputEvents.INPUT_POINTER_ENDED, InputEvents.INPUT_POINTER_CANCELLED], this._handlePointerEnded, this);
+        super.onExit();
+    }
+
+    /**
+     * Checks if the specified global point is within the bounds of this control.
+     *
+     * @method _containsPoint
+     * @param {Point} point - The point to check, in global coordinates.
+     * @returns {Boolean}
+     * @private
+     */
+    _containsPoint(point) {
+        const localPoint = this.globalToLocalPoint(point);
+        return localPoint.x >= 0 && localPoint.x <= this.pixelSize.width && localPoint.y >= 0 && localPoint.y <= this.pixelSize.height;
+    }
+
+    /**
+     * Handles the pointer began input event.
+     *
+     * @method _handlePointerBegan
+     * @param {*} sender - The sender of the event.
+     * @param {PointerEvent} event - Object containing the event's description.
+     * @private
+     */
+    _handlePointerBegan(sender, event) {
+        this.mTrackingPointer = null;
+        if (this.visible && this._containsPoint(event.point)) {
+            this.mTrackingPointer = event.identifier;
+        }
+    }
+
+    /**
+     * Handles the pointer moved event.
+     *
+     * @method _handlePointerMoved
+     * @param {*} sender - The sender of the event.
+     * @param {PointerEvent} event - Object containing the event's description.
+     * @private
+     */
+    _handlePointerMoved(sender, event) {
+        if (event.identifier === this.mTrackingPointer && !this._containsPoint(event.point)) {
+            this.mTrackingPointer = null;
+        }
+    }
+
+    /**
+     * Handles the pointer ended input event.
+     *
+     * @method _handlePointerEnded
+     * @param {*} sender - The sender of the event.
+     * @param {PointerEvent} event - Object containing the event's description.
+     * @private
+     */
+    _handlePointerEnded(sender, event) {
+        if (event.identifier === this.mTrackingPointer) {
+            this.mTrackingPointer = null;
+            if (this.visible && this._containsPoint(event.point)) {
+                this.emit(Events.LAYOUT_LOAD_MORE_CLICKED, this);
+            }
+        }
+    }
+}
+
+export default LoadMoreControl;
@@ -0,0 +1,197 @@
+/**
+ * Copyright (c) 2017 Uncharted Software Inc.
+ * http://www.uncharted.software/
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is furnished to do
+ * so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import IObject from '../revi/core/IObject.js';
+import CachedNode from '../revi/graphics/CachedNode.js';
+import SVGContext from '../revi/graphics/SVGContext.js';
+import Primitive from '../revi/graphics/primitives/Primitive.js';
+import Matrix from '../revi/geometry/Matrix.js';
+import MatrixStack from '../revi/geometry/MatrixStack.js';
+import Label from '../revi/text/Label.js';
+import Persona from '../persona/Persona.js';
+import Layout from './Layout.js';
+
+/**
+ * Walks the node tree of a canvas and converts it into an SVG document. Primitives, links and images are drawn as
+ * vectors into an `SVGContext`, labels become text elements and cached nodes are walked instead of being rasterized.
+ *
+ * @class SVGExporter
+ */
+export class SVGExporter extends IObject {
+    /**
+     * @constructor
+     * @param {Array=} excludedNodes - Nodes that, along with their children, are left out of the exported documents.
+     */
+    constructor(excludedNodes = []) {
+        super();
+        this.mExcludedNodes = excludedNodes.filter(node => Boolean(node));
+    }
+
+    /**
+     * Destroys this object. Called automatically when the reference count of this object reaches zero.
+     *
+     * @method destroy
+     */
+    destroy() {
+        delete this.mExcludedNodes;
+        super.destroy();
+    }
+
+    /**
+     * Exports the current state of the specified canvas as an SVG document.
+     *
+     * @method export
+     * @param {Canvas} canvas - The canvas to export.
+     * @param {Function=} drawOverlay - Called after the nodes are exported with the SVG context and the size of the canvas.
+     * @returns {String}
+     */
+    export(canvas, drawOverlay = null) {
+        const width = canvas.size.width;
+        const height = canvas.size.height;
+        const context = new SVGContext(width, height);
+        const matrixStack = new MatrixStack();
+
+        canvas.children.forEach(child => this._exportNode(child, context, matrixStack));
+
+        if (drawOverlay) {
+            context.setTransform(1, 0, 0, 1, 0, 0);
+            drawOverlay(context, width, height);
+        }
+
+        const svg = context.serialize();
+        context.release();
+        matrixStack.release();
+        return svg;
+    }
+
+    /**
+     * Exports the specified node and its children. Subtrees without cached nodes are drawn as they are on screen.
+     *
+     * @method _exportNode
+     * @param {Node} node - The node to export.
+     * @param {SVGContext} context - The context recording the SVG elements.
+     * @param {MatrixStack} matrixStack - The matrix stack used for drawing.
+     * @private
+     */
+    _exportNode(node, context, matrixStack) {
+        if (!node.visible || this.mExcludedNodes.indexOf(node) !== -1) {
+            return;
+        }
+
+        const oldAlpha = context.globalAlpha;
+        node._pushTransform(context, matrixStack);
+
+        if (node instanceof Label) {
+            this._exportLabel(node, context);
+        } else if (node instanceof Primitive || !this._containsCachedNodes(node)) {
+            node.draw(context, matrixStack);
+        } else if (node instanceof Persona) {
+            context.globalAlpha = oldAlpha * node.alpha;
+            this._exportPersona(node, context, matrixStack);
+        } else {
+            if (node instanceof Layout) {
+                context.globalAlpha = oldAlpha * node.alpha;
+                node._drawLinks(context);
+            }
+            node.children.forEach(child => this._exportNode(child, context, matrixStack));
+        }
+
+        node._popTransform(context, matrixStack);
+        context.globalAlpha = oldAlpha;
+    }
+
+    /**
+     * Exports the children of a persona. Personas lay their children out in screen pixels, centered in a buffer scaled
+     * by their global scale, the same transformation is applied here before the children are exported.
+     *
+     * @method _exportPersona
+     * @param {Persona} persona - The persona to export.
+     * @param {SVGContext} context - The context recording the SVG elements.
+     * @param {MatrixStack} matrixStack - The matrix stack used for drawing.
+     * @private
+     */
+    _exportPersona(persona, context, matrixStack) {
+        const globalScale = persona.globalScale;
+        const size = persona.size;
+        const matrix = new Matrix();
+        matrix.scale(1 / globalScale, 1 / globalScale);
+        matrix.translate(size.width * globalScale * 0.5 - size.width * 0.5, size.height * globalScale * 0.5 - size.height * 0.5);
+
+        matrixStack.push(matrix);
+        persona.children.forEach(child => this._exportNode(child, context, matrixStack));
+        matrixStack.pop();
+        matrixStack.apply(context);
+        matrix.release();
+
+        if (persona.mDisplaySubLevelBadge) {
+            this._exportNode(persona.mSubLevelBadge, context, matrixStack);
+        }
+    }
+
+    /**
+     * Exports a label as a text element, centered vertically in the label and aligned as configured.
+     *
+     * @method _exportLabel
+     * @param {Label} label - The label to export.
+     * @param {SVGContext} context - The context recording the SVG elements.
+     * @private
+     */
+    _exportLabel(label, context) {
+        if (!label.text) {
+            return;
+        }
+
+        const options = label.mOptions;
+        const padding = options.renderingPadding;
+        const fontFamily = label.font ? label.font.getEnglishName('fontFamily') : 'sans-serif';
+        const size = label.pixelSize;
+        let x = padding;
+        context.textAlign = 'left';
+        if (options.alignment === Label.TEXT_ALIGNMENT.CENTER) {
+            x = size.width * 0.5;
+            context.textAlign = 'center';
+        } else if (options.alignment === Label.TEXT_ALIGNMENT.RIGHT) {
+            x = size.width - padding;
+            context.textAlign = 'right';
+        }
+
+        context.font = `${label.fontSize}px ${fontFamily}`;
+        context.textBaseline = 'middle';
+        context.fillStyle = options.color;
+        context.fillText(label.text, x, size.height * 0.5);
+    }
+
+    /**
+     * Checks if the specified node, or any of its descendants, renders through an offscreen buffer.
+     *
+     * @method _containsCachedNodes
+     * @param {Node} node - The node to check.
+     * @returns {Boolean}
+     * @private
+     */
+    _containsCachedNodes(node) {
+        return node instanceof CachedNode || node.children.some(child => this._containsCachedNodes(child));
+    }
+}
+
+export default SVGExporter;
@@ -0,0 +1,55 @@
+/**
+ * Copyright (c) 2017 Uncharted Software Inc.
+ * http://www.uncharted.software/
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is furnished to do
+ * so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { expect } from 'chai';
+import SVGExporter from './SVGExporter.js';
+import Node from '../revi/graphics/Node.js';
+import Circle from '../revi/graphics/primitives/Circle.js';
+
+describe ('/layout/SVGExporter', () => {
+    let instance = null;
+    let root = null;
+    let excluded = null;
+
+    before(() => {
+        root = new Node(100, 50);
+        root.addChild(new Circle(10, { fillColor: '#ff0000' }));
+        excluded = new Circle(10, { fillColor: '#00ff00' });
+        root.addChild(excluded);
+        instance = new SVGExporter([excluded]);
+    });
+
+    it ('exists', done => {
+        done();
+    });
+
+    it ('exports the size of the root node as the view box', () => {
+        expect(instance.export(root)).to.contain('viewBox="0 0 100 50"');
+    });
+
+    it ('exports the primitives as paths and skips the excluded nodes', () => {
+        const svg = instance.export(root);
+        expect(svg).to.contain('fill="#ff0000"');
+        expect(svg).to.not.contain('fill="#00ff00"');
+    });
+});
@@ -30,6 +30,7 @@ import EasingEvents from '../revi/plugins/easing/Events.js';
 import Canvas from '../revi/graphics/Canvas.js';
 import Scheduler from '../revi/plugins/Scheduler.js';
 import ZoomControl from './ZoomControl.js';
+import LoadMoreControl from './LoadMoreControl.js';
 import GeometryEvents from '../revi/geometry/Events.js';
 import Events from './Events.js';
 import Layout from './Layout.js';
@@ -53,6 +54,7 @@ export class Viewport extends Node {
         super(width, height);
         this.mConfig = config;
         this.mDragging = false;
+        this.mDraggedPersona = null;
         this.mUpdateScale = null;
         this.mTrackingMoveThreshold = Math.pow(this.mConfig.viewportDragThreshold, 2);
         this.mZoomScrollMultiplier = this.mConfig.viewportZoomScrollMultiplier;
@@ -61,6 +63,7 @@ export class Viewport extends Node {
         this.mScheduler = null;
         this.mContent = new Node(width, height);
         this.mZoomControls = new ZoomControl(this.mConfig);
+        this.mLoadMoreControl = new LoadMoreControl(this.mConfig);
         this.mEventQueue = [];
         this.mEventTickScheduled = false;
         this.mLayout = null;
@@ -72,6 +75,7 @@ export class Viewport extends Node {
 
         super.addChildAt(this.mContent, 0);
         super.addChildAt(this.mZoomControls, 1);
+        super.addChildAt(this.mLoadMoreControl, 2);
 
         if (this.mBackground) {
             this.mBackground.anchor.set(0, 0);
@@ -91,6 +95,7 @@ export class Viewport extends Node {
 
         this.mContent.release();
         this.mZoomControls.release();
+        this.mLoadMoreControl.release();
 
         while (this.mChildren.length) {
             super.removeChildAt(this.mChildren.length - 1);
@@ -98,6 +103,7 @@ export class Viewport extends Node {
 
         delete this.mConfig;
         delete this.mDragging;
+        delete this.mDraggedPersona;
         delete this.mUpdateScale;
         delete this.mTrackingMoveThreshold;
         delete this.mZoomScrollMultiplier;
@@ -106,6 +112,7 @@ export class Viewport extends Node {
         delete this.mScheduler;
         delete this.mContent;
         delete this.mZoomControls;
+        delete this.mLoadMoreControl;
         delete this.mEventQueue;
         delete this.mEventTickScheduled;
         delete this.mBoundFlushEventQueue;
@@ -123,6 +130,26 @@ export class Viewport extends Node {
         return this.mContent.scale;
     }
 
+    /**
+     * The zoom controls displayed in this viewport.
+     *
+     * @type {ZoomControl}
+     * @readonly
+     */
+    get zoomControls() {
+        return this.mZoomControls;
+    }
+
+    /**
+     * The "load more" control displayed in this viewport.
+     *
+     * @type {LoadMoreControl}
+     * @readonly
+     */
+    get loadMoreControl() {
+        return this.mLoadMoreControl;
+    }
+
     /**
      * The position of this viewport's content.
      *
@@ -148,10 +175,12 @@ export class Viewport extends Node {
 
         this.mScheduler = Scheduler.instanceForContext(reviContext);
         this._positionZoomControls(this.pixelSize.width, this.pixelSize.height);
+        this._positionLoadMoreControl(this.pixelSize.width, this.pixelSize.height);
 
         this.pixelSize.on(GeometryEvents.GEOMETRY_VALUE_CHANGED, this.pixelSize.safeBind(this._handlePixelSizeChanged, this));
 
         this.forward(this.mZoomControls);
+        this.forward(this.mLoadMoreControl);
         this.on(Events.LAYOUT_ZOOM_IN_CLICKED, this.safeBind(this.zoomIn, this, true));
         this.on(Events.LAYOUT_ZOOM_OUT_CLICKED, this.safeBind(this.zoomOut, this, true));
         this.on(Events.LAYOUT_AUTO_ZOOM_CLICKED, this.safeBind(this.autoZoom, this, true, null));
@@ -177,6 +206,7 @@ export class Viewport extends Node {
         this.pixelSize.off(GeometryEvents.GEOMETRY_VALUE_CHANGED, this._handlePixelSizeChanged, this);
 
         this.unforward(this.mZoomControls);
+        this.unforward(this.mLoadMoreControl);
         this.off(Events.LAYOUT_ZOOM_IN_CLICKED, this.zoomIn, this);
         this.off(Events.LAYOUT_ZOOM_OUT_CLICKED, this.zoomOut, this);
         this.off(Events.LAYOUT_AUTO_ZOOM_CLICKED, this.autoZoom, this);
@@ -496,6 +526,7 @@ export class Viewport extends Node {
 
         this.mTrackingPointer = event.identifier;
         this.mTrackingPoint = event.point.retain();
+        this.mDraggedPersona = this._findDraggablePersona(event.point);
     }
 
 
@@ -513,12 +544,23 @@ export class Viewport extends Node {
             const distanceSQ = Math.pow(point.x - this.mTrackingPoint.x, 2) + Math.pow(point.y - this.mTrackingPoint.y, 2);
             if (!this.mDragging && distanceSQ > this.mTrackingMoveThreshold) {
                 this.mDragging = true;
+                if (this.mDraggedPersona) {
+                    this.mLayout.cancelAnimations();
+                }
             }
 
             if (this.mDragging) {
-                const xOff = point.x - this.mTrackingPoint.x;
-                const yOff = point.y - this.mTrackingPoint.y;
-                this.mContent.position.set(this.mContent.position.x + xOff, this.mContent.position.y + yOff);
+                if (this.mDraggedPersona) {
+                    /* move the persona in layout coordinates so it follows the pointer at any zoom level */
+                    const persona = this.mDraggedPersona;
+                    const from = this.mLayout.globalToLocalPoint(this.mTrackingPoint);
+                    const to = this.mLayout.globalToLocalPoint(point);
+                    persona.position.set(persona.position.x + to.x - from.x, persona.position.y + to.y - from.y);
+                } else {
+                    const xOff = point.x - this.mTrackingPoint.x;
+                    const yOff = point.y - this.mTrackingPoint.y;
+                    this.mContent.position.set(this.mContent.position.x + xOff, this.mContent.position.y + yOff);
+                }
                 this.mTrackingPoint.release();
                 this.mTrackingPoint = point.retain();
             }
@@ -540,8 +582,13 @@ export class Viewport extends Node {
                 this.emit(Events.LAYOUT_BLANK_SPACE_CLICKED, this, event.position, localPoint);
             } else {
                 this.mDragging = false;
+                if (this.mDraggedPersona) {
+                    this.mLayout.dropPersona(this.mDraggedPersona);
+                    this.emit(Events.LAYOUT_PERSONA_DROPPED, this, this.mDraggedPersona);
+                }
             }
 
+            this.mDraggedPersona = null;
             this.mTrackingPointer = null;
             if (this.mTrackingPoint) {
                 this.mTrackingPoint.release();
@@ -550,6 +597,35 @@ export class Viewport extends Node {
         }
     }
 
+    /**
+     * Finds the persona of the current layout under the specified point if personas can be dragged, null otherwise.
+     * Personas drawn last are on top, they are checked first.
+     *
+     * @method _findDraggablePersona
+     * @param {Point} point - The point to check, in global coordinates.
+     * @returns {Persona|null}
+     * @private
+     */
+    _findDraggablePersona(point) {
+        if (!this.mConfig.viewportPersonaDragging || !this.mLayout || !this.mLayout.allowsManualPositions) {
+            return null;
+        }
+
+        const personas = this.mLayout.personas;
+        for (let i = personas.length - 1; i >= 0; --i) {
+            const persona = personas[i].object;
+            if (persona.visible) {
+                const localPoint = persona.globalToLocalPoint(point);
+                const distanceSQ = Math.pow(localPoint.x - persona.size.width * 0.5, 2) + Math.pow(localPoint.y - persona.size.height * 0.5, 2);
+                if (distanceSQ < persona.radius * persona.radius) {
+                    return persona;
+                }
+            }
+        }
+
+        return null;
+    }
+
     /**
      * Handles the scroll up input event.
      *
@@ -614,6 +690,19 @@ export class Viewport extends Node {
         }
     }
 
+    /**
+     * Position the "load more" control at the bottom center of the viewport.
+     *
+     * @method _positionLoadMoreControl
+     * @param {Number} width - The width of the container where the control will be positioned.
+     * @param {Number} height - The height of the container where the control will be positioned.
+     * @private
+     */
+    _positionLoadMoreControl(width, height) {
+        this.mLoadMoreControl.anchor.set('50%', '100%');
+        this.mLoadMoreControl.position.set(width * 0.5, height - this.mConfig.zoomControlsPadding);
+    }
+
     /**
      * Handles pixel size changes.
      *
@@ -626,6 +715,7 @@ export class Viewport extends Node {
     _handlePixelSizeChanged(sender, width, height) {
         if (sender === this.pixelSize) {
             this._positionZoomControls(width, height);
+            this._positionLoadMoreControl(width, height);
         }
     }
 
@@ -31,10 +31,12 @@ export class ColaLayout extends Layout {
     /**
      * @param {Number} width - The desired with of the layout.
      * @param {Number} height - The desired height of the layout.
+     * @param {Number=} padding - The minimum space to leave between personas.
      * @constructor
      */
-    constructor(width, height) {
+    constructor(width, height, padding = 0) {
         super(width, height);
+        this.mPadding = padding;
     }
 
     /**
@@ -43,9 +45,29 @@ export class ColaLayout extends Layout {
      * @method destroy
      */
     destroy() {
+        delete this.mPadding;
+
         super.destroy();
     }
 
+    /**
+     * The minimum space left between personas.
+     *
+     * @type {Number}
+     */
+    get padding() {
+        return this.mPadding;
+    }
+
+    /**
+     * Sets the minimum space left between personas.
+     *
+     * @param {Number} value - The new padding.
+     */
+    set padding(value) {
+        this.mPadding = value;
+    }
+
     /**
      * Adds a persona to this layout.
      *
@@ -113,11 +135,24 @@ export class ColaLayout extends Layout {
             }
         }
 
+        /* personas moved by the user are locked in place, the rest of the graph settles around them */
+        const manualPositions = this.manualPositions;
+        const hasManualPositions = nodes.some(node => manualPositions[node.id]);
+        nodes.forEach(node => {
+            const position = manualPositions[node.id];
+            if (position) {
+                node.x = position.x;
+                node.y = position.y;
+                node.fixed = 1;
+            }
+        });
+
         const layout = new Cola.Layout();
         layout.nodes(nodes);
         layout.links(links);
         layout.size([width, height]);
         layout.avoidOverlaps(true);
+        layout.handleDisconnected(!hasManualPositions);
         layout.linkDistance(l => (l.source.width * 0.4 + l.target.width * 0.4));
         layout.start(25, 0, 10, 0, false);
         if (!skipFit) {
@@ -135,6 +170,7 @@ export class ColaLayout extends Layout {
             const wrapper = node.wrapper;
             wrapper.updatePosition();
             wrapper.objectPosition.set(node.x, node.y);
+            this._applyManualPosition(wrapper);
 
             if (animated) {
                 if (this.newObjects.indexOf(wrapper) !== -1) {
@@ -160,6 +196,17 @@ export class ColaLayout extends Layout {
         this.clearNewObjects();
     }
 
+    /**
+     * Keeps the specified persona where the user dropped it and settles the rest of the personas around it.
+     *
+     * @method dropPersona
+     * @param {Persona} persona - The persona that was moved.
+     */
+    dropPersona(persona) {
+        super.dropPersona(persona);
+        this.positionObjects(true);
+    }
+
     /**
      * Creates graph node data from a persona in the layout.
      *
@@ -174,8 +221,8 @@ export class ColaLayout extends Layout {
             id: wrapper.id,
             x: wrapper.position.x,
             y: wrapper.position.y,
-            width: wrapper.object.size.width,
-            height: wrapper.object.size.height,
+            width: wrapper.object.size.width + this.mPadding,
+            height: wrapper.object.size.height + this.mPadding,
         };
     }
 
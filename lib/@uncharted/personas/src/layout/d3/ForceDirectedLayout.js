@@ -67,7 +67,7 @@ function extractGraph (personaWrappers) {
             links.push({
                 source: persona.id,
                 target: link.target,
-                weight: link.strength,
+                weight: link.weight,
             });
         });
     });
@@ -81,13 +81,70 @@ function extractGraph (personaWrappers) {
 
 
 export class ForceDirectedLayout extends Layout {
-    constructor(width, height) {
+    /**
+     * @param {Number} width - The desired with of the layout.
+     * @param {Number} height - The desired height of the layout.
+     * @param {Number=} repulsion - How strongly personas push each other away.
+     * @param {Number=} padding - The minimum space to leave between personas.
+     * @constructor
+     */
+    constructor(width, height, repulsion = 30, padding = 0) {
         super(width, height);
+        this.mRepulsion = repulsion;
+        this.mPadding = padding;
         this.linkStrengthFcn = defaultLinkStrength;
         this.nodeSizeFcn = defaultNodeSize;
         this.customForceConstructors = {};
     }
 
+    /**
+     * Destroys this object. Called automatically when the reference count of this object reaches zero.
+     *
+     * @method destroy
+     */
+    destroy() {
+        delete this.mRepulsion;
+        delete this.mPadding;
+
+        super.destroy();
+    }
+
+    /**
+     * How strongly personas push each other away.
+     *
+     * @type {Number}
+     */
+    get repulsion() {
+        return this.mRepulsion;
+    }
+
+    /**
+     * Sets how strongly personas push each other away.
+     *
+     * @param {Number} value - The new repulsion.
+     */
+    set repulsion(value) {
+        this.mRepulsion = value;
+    }
+
+    /**
+     * The minimum space left between personas.
+     *
+     * @type {Number}
+     */
+    get padding() {
+        return this.mPadding;
+    }
+
+    /**
+     * Sets the minimum space left between personas.
+     *
+     * @param {Number} value - The new padding.
+     */
+    set padding(value) {
+        this.mPadding = value;
+    }
+
     /**
      * Adds a new force to the force layout
      *
@@ -153,25 +210,26 @@ export class ForceDirectedLayout extends Layout {
         const ourWidth = this.size.width;
         const ourHeight = this.size.height;
 
-        // Figure out link scale (max link should have strength 1)
+        // Figure out link scale (max link should have strength 1), links without a weight get full strength
         let maxLinkStrength = 0;
         links.forEach(link => {
-            maxLinkStrength = Math.max(maxLinkStrength, this.linkStrengthFcn(link));
+            maxLinkStrength = Math.max(maxLinkStrength, this.linkStrengthFcn(link) || 0);
         });
+        const linkStrengthFcn = maxLinkStrength > 0 ? scale(1.0 / maxLinkStrength, link => this.linkStrengthFcn(link) || 0) : () => 1;
 
         // Create our simulation
         const simulation = d3.forceSimulation(nodes)
             .force('link', d3.forceLink(links)
                 .id(node => node.id)
-                .strength(scale(1.0 / maxLinkStrength, this.linkStrengthFcn))
+                .strength(linkStrengthFcn)
                 .distance(link => {
                     if (link.source.id === link.target.id) {
                         return 0;
                     }
                     return 30;
                 }))
-            .force('charge', d3.forceManyBody())
-            .force('collide', d3.forceCollide(this.nodeSizeFcn))
+            .force('charge', d3.forceManyBody().strength(-this.mRepulsion))
+            .force('collide', d3.forceCollide(node => this.nodeSizeFcn(node) + this.mPadding * 0.5))
             .force('center', d3.forceCenter());
         Object.getOwnPropertyNames(this.customForceConstructors).forEach(forceName => {
             let force = this.customForceConstructors[forceName](nodes, links, ourWidth, ourHeight);
@@ -179,12 +237,17 @@ export class ForceDirectedLayout extends Layout {
         });
         simulation.alpha(1.0).stop();
 
-        // Seed random initial positions
+        // Seed random initial positions, personas moved by the user stay where they were placed
+        const manualPositions = this.manualPositions;
         nodes.forEach(node => {
             node.x = Math.random() * ourWidth;
             node.y = Math.random() * ourHeight;
             node.vx = 0;
             node.vy = 0;
+            if (manualPositions[node.id]) {
+                node.fx = manualPositions[node.id].x;
+                node.fy = manualPositions[node.id].y;
+            }
         });
 
         // Run our simulation
@@ -198,6 +261,7 @@ export class ForceDirectedLayout extends Layout {
             const wrapper = node.wrapper;
             wrapper.updatePosition();
             wrapper.objectPosition.set(node.x, node.y);
+            this._applyManualPosition(wrapper);
             wrapper.updateValues();
         });
         this.clearNewObjects();
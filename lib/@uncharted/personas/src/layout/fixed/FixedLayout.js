@@ -0,0 +1,264 @@
+/**
+ * Copyright (c) 2017 Uncharted Software Inc.
+ * http://www.uncharted.software/
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is furnished to do
+ * so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import Layout from '../Layout.js';
+import Easing from '../../revi/plugins/easing/Easing.js';
+import EasingEvents from '../../revi/plugins/easing/Events.js';
+import EasingTypes from '../../revi/plugins/easing/EasingTypes.js';
+
+/**
+ * Maximum number of passes used to push overlapping personas apart.
+ *
+ * @type {Number}
+ */
+const SEPARATION_ITERATIONS = 100;
+
+/**
+ * Angle, in radians, used to spread personas placed on the exact same spot in different directions.
+ *
+ * @type {Number}
+ */
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+/**
+ * Layout that places the personas at the positions assigned to them through the data, scaled to fit the layout while
+ * keeping the aspect ratio of the data. Personas without a position start at the center. No simulation is run, the
+ * personas are only moved as much as needed for them not to overlap.
+ *
+ * @class FixedLayout
+ */
+export class FixedLayout extends Layout {
+    /**
+     * @param {Number} width - The desired with of the layout.
+     * @param {Number} height - The desired height of the layout.
+     * @param {Number=} padding - The minimum space to leave between personas.
+     * @constructor
+     */
+    constructor(width, height, padding = 0) {
+        super(width, height);
+        this.mPadding = padding;
+    }
+
+    /**
+     * Destroys this object. Called automatically when the reference count of this object reaches zero.
+     *
+     * @method destroy
+     */
+    destroy() {
+        delete this.mPadding;
+
+        super.destroy();
+    }
+
+    /**
+     * The minimum space left between personas.
+     *
+     * @type {Number}
+     */
+    get padding() {
+        return this.mPadding;
+    }
+
+    /**
+     * Sets the minimum space left between personas.
+     *
+     * @param {Number} value - The new padding.
+     */
+    set padding(value) {
+        this.mPadding = value;
+    }
+
+    /**
+     * Adds a persona to this layout.
+     *
+     * @method addPersona
+     * @param {Persona} persona - The persona to add to the layout.
+     * @returns {LayoutObject}
+     */
+    addPersona(persona) {
+        this.addChild(persona);
+        return super.addPersona(persona);
+    }
+
+    /**
+     * Remove the specified persona from this layout.
+     *
+     * @method removePersona
+     * @param {Persona} persona - The persona to remove.
+     */
+    removePersona(persona) {
+        this.removeChild(persona);
+        super.removePersona(persona);
+    }
+
+    /**
+     * Removes all personas from this layout.
+     *
+     * @method removeAllPersonas
+     */
+    removeAllPersonas() {
+        this.removeChildren();
+        super.removeAllPersonas();
+    }
+
+    /**
+     * Positions the objects in this layout.
+     *
+     * @method positionObjects
+     * @param {Boolean} animated - Should the objects be animated after being positioned.
+     */
+    positionObjects(animated = false) {
+        const width = this.size.width;
+        const height = this.size.height;
+        const nodes = this.personas.map(wrapper => ({
+            wrapper: wrapper,
+            pinned: wrapper.object.pinnedPosition,
+            radius: wrapper.objectRadius + this.mPadding * 0.5,
+            x: width * 0.5,
+            y: height * 0.5,
+            locked: false,
+        }));
+
+        const pinnedNodes = nodes.filter(node => node.pinned);
+        if (pinnedNodes.length) {
+            const xs = pinnedNodes.map(node => node.pinned.x);
+            const ys = pinnedNodes.map(node => node.pinned.y);
+            const minX = Math.min(...xs);
+            const maxX = Math.max(...xs);
+            const minY = Math.min(...ys);
+            const maxY = Math.max(...ys);
+            const margin = Math.max(...nodes.map(node => node.radius));
+            const availableWidth = Math.max(width - margin * 2, width * 0.5);
+            const availableHeight = Math.max(height - margin * 2, height * 0.5);
+            const scale = Math.min(maxX > minX ? availableWidth / (maxX - minX) : Infinity, maxY > minY ? availableHeight / (maxY - minY) : Infinity);
+            const dataScale = isFinite(scale) ? scale : 0;
+
+            /* the data Y axis points up, as in a scatter plot */
+            pinnedNodes.forEach(node => {
+                node.x = width * 0.5 + (node.pinned.x - (minX + maxX) * 0.5) * dataScale;
+                node.y = height * 0.5 - (node.pinned.y - (minY + maxY) * 0.5) * dataScale;
+            });
+        }
+
+        /* personas moved by the user stay where they were placed, the others make room for them */
+        const manualPositions = this.manualPositions;
+        nodes.forEach(node => {
+            const position = manualPositions[node.wrapper.id];
+            if (position) {
+                node.x = position.x;
+                node.y = position.y;
+                node.locked = true;
+            }
+        });
+
+        this._separateNodes(nodes);
+
+        const easingType = EasingTypes.Back.EaseOut;
+        const easing = Easing.instance(this.reviContext, {
+            type: easingType,
+            duration: 300,
+        });
+        let hasAnimations = false;
+
+        nodes.forEach(node => {
+            const wrapper = node.wrapper;
+            wrapper.updatePosition();
+            wrapper.objectPosition.set(node.x, node.y);
+
+            if (animated) {
+                if (this.newObjects.indexOf(wrapper) !== -1) {
+                    wrapper.updatePosition();
+                }
+                hasAnimations = wrapper.animate(easing) || hasAnimations;
+            } else {
+                wrapper.updateValues();
+            }
+        });
+
+        if (hasAnimations) {
+            easing.on([EasingEvents.EASING_END, EasingEvents.EASING_STOP], () => {
+                const index = this.mAnimations.indexOf(easing);
+                if (index !== -1) {
+                    this.mAnimations.splice(index, 1);
+                }
+            });
+            this.mAnimations.push(easing);
+            easing.start();
+        }
+
+        this.clearNewObjects();
+    }
+
+    /**
+     * Keeps the specified persona where the user dropped it and moves the personas it overlaps out of its way.
+     *
+     * @method dropPersona
+     * @param {Persona} persona - The persona that was moved.
+     */
+    dropPersona(persona) {
+        super.dropPersona(persona);
+        this.positionObjects(true);
+    }
+
+    /**
+     * Pushes overlapping nodes apart, each node of an overlapping pair moves half of the overlap away from the other.
+     * Locked nodes don't move, the other node of the pair moves the whole overlap instead.
+     *
+     * @method _separateNodes
+     * @param {Array} nodes - The nodes to separate, with their `x`, `y`, `radius` and `locked` state.
+     * @private
+     */
+    _separateNodes(nodes) {
+        for (let iteration = 0; iteration < SEPARATION_ITERATIONS; ++iteration) {
+            let moved = false;
+            for (let i = 0, n = nodes.length; i < n; ++i) {
+                const a = nodes[i];
+                for (let j = i + 1; j < n; ++j) {
+                    const b = nodes[j];
+                    const dx = b.x - a.x;
+                    const dy = b.y - a.y;
+                    const distance = Math.sqrt(dx * dx + dy * dy);
+                    const overlap = a.radius + b.radius - distance;
+                    if (overlap > 0 && !(a.locked && b.locked)) {
+                        const angle = j * GOLDEN_ANGLE;
+                        const ux = distance > 0 ? dx / distance : Math.cos(angle);
+                        const uy = distance > 0 ? dy / distance : Math.sin(angle);
+                        const shareA = a.locked ? 0 : (b.locked ? 1 : 0.5);
+                        const shareB = 1 - shareA;
+                        a.x -= ux * overlap * shareA;
+                        a.y -= uy * overlap * shareA;
+                        b.x += ux * overlap * shareB;
+                        b.y += uy * overlap * shareB;
+                        moved = true;
+                    }
+                }
+            }
+
+            if (!moved) {
+                break;
+            }
+        }
+    }
+}
+
+export default FixedLayout;
@@ -0,0 +1,93 @@
+/**
+ * Copyright (c) 2017 Uncharted Software Inc.
+ * http://www.uncharted.software/
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is furnished to do
+ * so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { expect } from 'chai';
+import FixedLayout from './FixedLayout.js';
+import Persona from '../../persona/Persona.js';
+import PersonaConfig from '../../config/Persona.js';
+
+describe ('/layout/fixed/FixedLayout', () => {
+    const personaData = {
+        id: 'test',
+        scalingFactor: 1,
+        totalCount: 111,
+        label: 'test',
+        properties: [
+            {
+                count: 37,
+                color: '#d26502'
+            },
+        ],
+        images: [
+            'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'
+        ],
+        links: [],
+    };
+
+    const positions = [
+        { x: 0, y: 0 },
+        { x: 100, y: 50 },
+        { x: 100, y: 50 },
+        null,
+    ];
+
+    let instance = null;
+
+    before(() => {
+        instance = new FixedLayout(500, 500, 10);
+        positions.forEach((position, i) => {
+            const data = Object.assign({}, personaData);
+            data.id = 'id_' + i;
+            data.position = position;
+
+            const persona = new Persona(30, data, PersonaConfig);
+            persona.position.set(-1000, -1000);
+            instance.addPersona(persona);
+        });
+        instance.positionObjects(false);
+    });
+
+    it ('places pinned personas following their data positions', () => {
+        const first = instance.personas[0].object.position;
+        const second = instance.personas[1].object.position;
+        expect(second.x).to.be.above(first.x);
+        expect(second.y).to.be.below(first.y);
+    });
+
+    it ('places personas without a position in the center', () => {
+        const persona = instance.personas[3].object;
+        expect(persona.position.x).to.not.equal(-1000);
+        expect(persona.position.y).to.not.equal(-1000);
+    });
+
+    it ('does not let personas overlap', () => {
+        const personas = instance.personas.map(wrapper => wrapper.object);
+        for (let i = 0; i < personas.length; ++i) {
+            for (let j = i + 1; j < personas.length; ++j) {
+                const dx = personas[j].position.x - personas[i].position.x;
+                const dy = personas[j].position.y - personas[i].position.y;
+                expect(Math.sqrt(dx * dx + dy * dy)).to.be.at.least(personas[i].radius + personas[j].radius + 9.9);
+            }
+        }
+    });
+});
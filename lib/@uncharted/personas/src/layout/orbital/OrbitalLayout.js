@@ -139,7 +139,9 @@ export class OrbitalLayout extends Layout {
         });
         let hasAnimations = false;
 
+        /* the orbits are placed at the origin of this layout, the persona positions are also in layout coordinates */
         this.personas.forEach(wrapper => {
+            this._applyManualPosition(wrapper);
             if (animated) {
                 if (this.newObjects.indexOf(wrapper) !== -1) {
                     wrapper.updatePosition();
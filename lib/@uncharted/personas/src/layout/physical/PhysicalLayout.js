@@ -110,6 +110,16 @@ export class PhysicalLayout extends Layout {
         super.destroy();
     }
 
+    /**
+     * The personas in this layout are moved by its physics simulation, they can't be placed by the user.
+     *
+     * @type {Boolean}
+     * @readonly
+     */
+    get allowsManualPositions() {
+        return false;
+    }
+
     /**
      * The speed at which objects are inserted into this layout.
      *
@@ -22,7 +22,7 @@
  */
 
 const Events = {
-    PERSONA_CLICKED: 'PERSONA::CLICKED', // function(sender, globalPoint, localPoint)
+    PERSONA_CLICKED: 'PERSONA::CLICKED', // function(sender, globalPoint, localPoint, modifiers)
     PERSONA_POINTER_OVER: 'PERSONA::POINTER::OVER', // function(sender, globalPoint, localPoint)
     PERSONA_POINTER_OUT: 'PERSONA::POINTER::OUT', // function(sender, globalPoint, localPoint)
 
@@ -61,13 +61,16 @@ export class Persona extends CachedNode {
         this.mRadius = Math.max(radius, 0);
         this.mID = data.id;
         this.mSelected = data.selected || false;
+        this.mOutlined = false;
         this.mPointerOver = false;
         this.mTrackingPointer = null;
         this.mTrackingPoint = null;
         this.mTrackingMoveThreshold = Math.pow(8, 2);
         this.mLinks = data.links ? data.links.slice() : [];
+        this.mPinnedPosition = data.position ? { x: data.position.x, y: data.position.y } : null;
         this.mGaugeBackup = null;
         this.mBarsEasing = null;
+        this.mRadiusEasing = null;
         this.mFocusEasing = null;
         this.mHighlighted = false;
         this.mAlpha = 1;
@@ -91,7 +94,7 @@ export class Persona extends CachedNode {
         const backgroundStrokeColor = this.mSelected ? this.mConfig.selectedBorderColor : this.mConfig.unselectedBorderColor;
         this.mBackground = new Circle(backgroundRadius, {
             fillEnabled: true,
-            fillColor: this.mConfig.backgroundColor,
+            fillColor: data.backgroundColor ? data.backgroundColor : this.mConfig.backgroundColor,
             stroke: backgroundStroke,
             strokeColor: backgroundStrokeColor,
             strokeType: Circle.STROKE_OUTER,
@@ -150,6 +153,11 @@ export class Persona extends CachedNode {
             this.mBarsEasing = null;
         }
 
+        if (this.mRadiusEasing) {
+            this.mRadiusEasing.stop();
+            this.mRadiusEasing = null;
+        }
+
         if (this.mGaugeBackup) {
             this.mGaugeBackup.length = 0;
             this.mGaugeBackup = null;
@@ -176,12 +184,14 @@ export class Persona extends CachedNode {
         delete this.mTrackingPoint;
         delete this.mTrackingMoveThreshold;
         delete this.mLinks;
+        delete this.mPinnedPosition;
         delete this.mBackground;
         delete this.mGauge;
         delete this.mAvatar;
         delete this.mLabel;
         delete this.mGaugeBackup;
         delete this.mBarsEasing;
+        delete this.mRadiusEasing;
         delete this.mFocusEasing;
         delete this.mHighlighted;
         delete this.mAlpha;
@@ -217,6 +227,16 @@ export class Persona extends CachedNode {
         return this.mLinks;
     }
 
+    /**
+     * The position assigned to this persona through the data, in data coordinates, null if it has none.
+     *
+     * @type {{x: Number, y: Number}|null}
+     * @readonly
+     */
+    get pinnedPosition() {
+        return this.mPinnedPosition;
+    }
+
     /**
      * The radius that encloses all elements of this persona.
      *
@@ -275,7 +295,7 @@ export class Persona extends CachedNode {
             this.mAvatar.mBorder.stroke = Math.max(this.mConfig.avatarBorder * thicknessScale, 1);
             this.mLabel.maxSize.set(radius * 2 + Math.ceil(this.mConfig.labelWidthSpill * 2), this.size.height * scale);
 
-            const backgroundStroke = this.mSelected ? this.mConfig.selectedBorder : this.mConfig.unselectedBorder * thicknessScale + this.mConfig.radiusOverlap;
+            const backgroundStroke = this.mSelected || this.mOutlined ? this.mConfig.selectedBorder : this.mConfig.unselectedBorder * thicknessScale + this.mConfig.radiusOverlap;
             this.mBackground.stroke = Math.max(backgroundStroke, 1);
 
             this.mSubLevelBadge.position.set(
@@ -304,10 +324,29 @@ export class Persona extends CachedNode {
     set selected(value) {
         if (value !== this.mSelected) {
             this.mSelected = value;
-            const thicknessScale = this._calculateThicknessScale(this.mGauge.radius);
-            const backgroundStroke = this.mSelected ? this.mConfig.selectedBorder : this.mConfig.unselectedBorder * thicknessScale + this.mConfig.radiusOverlap;
-            this.mBackground.stroke = Math.max(backgroundStroke, 1);
-            this.mBackground.strokeColor = this.mSelected ? this.mConfig.selectedBorderColor : this.mConfig.unselectedBorderColor;
+            this._updateBorder();
+        }
+    }
+
+    /**
+     * Is this persona outlined, used to show which persona has the keyboard focus.
+     *
+     * @type {Boolean}
+     */
+    get outlined() {
+        return this.mOutlined;
+    }
+
+    /**
+     * Sets the outlined state of this persona. Outlined personas are drawn with a thick border of the configured
+     * outline color, regardless of their selection state.
+     *
+     * @param {Boolean} value - The new outlined state.
+     */
+    set outlined(value) {
+        if (value !== this.mOutlined) {
+            this.mOutlined = value;
+            this._updateBorder();
         }
     }
 
@@ -509,8 +548,9 @@ export class Persona extends CachedNode {
      *
      * @method updateData
      * @param {Object} data - the data used to update this persona.
+     * @param {Boolean=} animated - Should the gauge bars be animated to their new values. Defaults to false.
      */
-    updateData(data) {
+    updateData(data, animated = false) {
         let countLabel = null;
         let totalCountLabel = null;
         if (this.mConfig.labelCountDisplayMode === 'propertyCount/totalCount') {
@@ -527,27 +567,62 @@ export class Persona extends CachedNode {
 
         this.mAvatar.updateImages(data.images);
 
+        this.mBackground.fillColor = data.backgroundColor ? data.backgroundColor : this.mConfig.backgroundColor;
+
         this.mLinks = data.links ? data.links.slice() : [];
 
+        this.mPinnedPosition = data.position ? { x: data.position.x, y: data.position.y } : null;
+
         this.mMetadata = data.hasOwnProperty('metadata') ? JSON.parse(JSON.stringify(data.metadata)) : null;
 
         /* update gauge here */
-        const properties = data.properties;
-        const bars = this.mGauge.bars;
+        const values = data.properties.map(property => ({
+            progress: property.count / data.totalCount,
+            color: property.color,
+        }));
 
-        while (bars.length > properties.length) {
-            this.mGauge.removeBar(bars.length - 1);
+        if (this.mGaugeBackup) {
+            /* the gauge is highlighted, the new values are displayed when the highlight is removed */
+            this.mGaugeBackup = values;
+        } else {
+            this._updateBars(values, animated);
         }
+    }
 
-        const barsCount = bars.length;
-        properties.forEach((property, i) => {
-            if (i < barsCount) {
-                bars[i].progress = property.count / data.totalCount;
-                bars[i].color = property.color;
-            } else {
-                this.mGauge.addBar(property.count / data.totalCount, property.color);
-            }
-        });
+    /**
+     * Changes the radius of this persona, animated from its current radius.
+     *
+     * @method updateRadius
+     * @param {Number} value - The new radius.
+     * @param {Boolean=} animated - Should the radius be animated to its new value. Defaults to false.
+     */
+    updateRadius(value, animated = false) {
+        if (this.mRadiusEasing) {
+            this.mRadiusEasing.stop();
+            this.mRadiusEasing = null;
+        }
+
+        const startRadius = this.mRadius;
+        const radiusChange = Math.max(value, 0) - startRadius;
+
+        if (animated && radiusChange) {
+            this.mRadiusEasing = Easing.instance(this.reviContext, {
+                type: EasingTypes.Cubic.EaseInOut,
+                duration: 300,
+            });
+
+            this.mRadiusEasing.on(EasingEvents.EASING_UPDATE, (sender, progress) => {
+                this.radius = startRadius + radiusChange * progress;
+            });
+
+            this.mRadiusEasing.on([EasingEvents.EASING_END, EasingEvents.EASING_STOP], () => {
+                this.mRadiusEasing = null;
+            });
+
+            this.mRadiusEasing.start();
+        } else {
+            this.radius = value;
+        }
     }
 
     /**
@@ -746,38 +821,39 @@ export class Persona extends CachedNode {
      */
     setFocus(focus, animated) {
         if (focus !== this.mInFocus) {
-            if (this.mFocusEasing) {
-                this.mFocusEasing.stop();
-                this.mFocusEasing = null;
-            }
-
             this.mInFocus = focus;
             if (animated) {
-                this.mFocusEasing = Easing.instance(this.reviContext, {
-                    type: EasingTypes.Cubic.EaseInOut,
-                    duration: 300,
-                });
-
-                const startAlpha = this.alpha;
-                const endAlpha = focus ? 1 : this.mConfig.outOfFocusAlpha;
-                const changeAlpha = endAlpha - startAlpha;
-
-                this.mFocusEasing.on(EasingEvents.EASING_UPDATE, (sender, progress) => {
-                    this.alpha = startAlpha + changeAlpha * progress;
-                });
-
-                this.mFocusEasing.on([EasingEvents.EASING_END, EasingEvents.EASING_STOP], () => {
-                    this.mAlpha = endAlpha;
-                    this.mFocusEasing = null;
-                });
-
-                this.mFocusEasing.start();
+                this._animateAlpha(focus ? 1 : this.mConfig.outOfFocusAlpha);
             } else {
+                if (this.mFocusEasing) {
+                    this.mFocusEasing.stop();
+                    this.mFocusEasing = null;
+                }
                 this.alpha = focus ? 1 : this.mConfig.outOfFocusAlpha;
             }
         }
     }
 
+    /**
+     * Fades this persona in, from transparent to the alpha of its current focus state.
+     *
+     * @method fadeIn
+     */
+    fadeIn() {
+        this.alpha = 0;
+        this._animateAlpha(this.mInFocus ? 1 : this.mConfig.outOfFocusAlpha);
+    }
+
+    /**
+     * Fades this persona out until it is transparent.
+     *
+     * @method fadeOut
+     * @param {Function=} callback - Function to be called once the fade completes or is stopped.
+     */
+    fadeOut(callback = null) {
+        this._animateAlpha(0, callback);
+    }
+
     /**
      * Displays the sub level badge of this persona.
      *
@@ -863,6 +939,153 @@ export class Persona extends CachedNode {
         }
     }
 
+    /**
+     * Animates the alpha of this persona from its current value to the specified value. If the animation is stopped
+     * the alpha is left at its current value.
+     *
+     * @method _animateAlpha
+     * @param {Number} endAlpha - The alpha at the end of the animation.
+     * @param {Function=} callback - Function to be called once the animation completes or is stopped.
+     * @private
+     */
+    _animateAlpha(endAlpha, callback = null) {
+        if (this.mFocusEasing) {
+            this.mFocusEasing.stop();
+            this.mFocusEasing = null;
+        }
+
+        const easing = Easing.instance(this.reviContext, {
+            type: EasingTypes.Cubic.EaseInOut,
+            duration: 300,
+        });
+
+        const startAlpha = this.alpha;
+        const changeAlpha = endAlpha - startAlpha;
+
+        easing.on(EasingEvents.EASING_UPDATE, (sender, progress) => {
+            this.alpha = startAlpha + changeAlpha * progress;
+        });
+
+        easing.on(EasingEvents.EASING_END, () => {
+            this.alpha = endAlpha;
+        });
+
+        easing.on([EasingEvents.EASING_END, EasingEvents.EASING_STOP], () => {
+            if (this.mFocusEasing === easing) {
+                this.mFocusEasing = null;
+            }
+            if (callback) {
+                callback(this);
+            }
+        });
+
+        this.mFocusEasing = easing;
+        easing.start();
+    }
+
+    /**
+     * Sets the progress and color of the gauge bars of this persona, adding or removing bars as needed.
+     *
+     * @method _updateBars
+     * @param {Array} values - Objects containing the progress and color of each bar.
+     * @param {Boolean} animated - Should the bars be animated from their current values.
+     * @private
+     */
+    _updateBars(values, animated) {
+        if (this.mBarsEasing) {
+            this.mBarsEasing.stop();
+            this.mBarsEasing = null;
+        }
+
+        const bars = this.mGauge.bars;
+        const barsCount = Math.min(bars.length, values.length);
+
+        if (animated) {
+            this.mBarsEasing = Easing.instance(this.reviContext, {
+                type: EasingTypes.Cubic.EaseInOut,
+                duration: 300,
+            });
+
+            for (let i = bars.length; i > barsCount; --i) {
+                const index = i - 1;
+                const toRemove = bars[index];
+                const startProgress = toRemove.progress;
+
+                this.mBarsEasing.on(EasingEvents.EASING_UPDATE, (sender, progress) => {
+                    toRemove.progress = startProgress * (1 - progress);
+                });
+
+                this.mBarsEasing.on([EasingEvents.EASING_END, EasingEvents.EASING_STOP], () => {
+                    this.mGauge.removeBar(index);
+                });
+            }
+
+            values.forEach((value, i) => {
+                let interpolator = null;
+
+                if (i < barsCount) {
+                    const startProgress = bars[i].progress;
+                    const progressChange = value.progress - startProgress;
+                    interpolator = new ColorInterpolator(bars[i].color, value.color);
+
+                    this.mBarsEasing.on(EasingEvents.EASING_UPDATE, (sender, progress) => {
+                        bars[i].progress = startProgress + progressChange * progress;
+                        bars[i].color = interpolator.colorForProgress(progress);
+                    });
+                } else {
+                    this.mGauge.addBar(0, value.color);
+                    this.mBarsEasing.on(EasingEvents.EASING_UPDATE, (sender, progress) => {
+                        bars[i].progress = value.progress * progress;
+                    });
+                }
+
+                this.mBarsEasing.on([EasingEvents.EASING_END, EasingEvents.EASING_STOP], () => {
+                    bars[i].progress = value.progress;
+                    bars[i].color = value.color;
+                    if (interpolator) {
+                        interpolator.release();
+                    }
+                });
+            });
+
+            this.mBarsEasing.on([EasingEvents.EASING_END, EasingEvents.EASING_STOP], () => {
+                this.mBarsEasing = null;
+            });
+
+            this.mBarsEasing.start();
+        } else {
+            while (bars.length > values.length) {
+                this.mGauge.removeBar(bars.length - 1);
+            }
+
+            values.forEach((value, i) => {
+                if (i < barsCount) {
+                    bars[i].progress = value.progress;
+                    bars[i].color = value.color;
+                } else {
+                    this.mGauge.addBar(value.progress, value.color);
+                }
+            });
+        }
+    }
+
+    /**
+     * Updates the thickness and color of the border of this persona to match its selected and outlined states.
+     *
+     * @method _updateBorder
+     * @private
+     */
+    _updateBorder() {
+        const thicknessScale = this._calculateThicknessScale(this.mGauge.radius);
+        const backgroundStroke = this.mSelected || this.mOutlined ? this.mConfig.selectedBorder : this.mConfig.unselectedBorder * thicknessScale + this.mConfig.radiusOverlap;
+        this.mBackground.stroke = Math.max(backgroundStroke, 1);
+        if (this.mOutlined) {
+            this.mBackground.strokeColor = this.mConfig.outlinedBorderColor;
+        } else {
+            this.mBackground.strokeColor = this.mSelected ? this.mConfig.selectedBorderColor : this.mConfig.unselectedBorderColor;
+        }
+    }
+
     /**
      * Handles the pointer began input event.
      *
@@ -949,7 +1172,7 @@ export class Persona extends CachedNode {
             }
 
             if (distanceSQ < this.radius * this.radius) {
-                this.emit(Events.PERSONA_CLICKED, this, event.position, localPoint);
+                this.emit(Events.PERSONA_CLICKED, this, event.position, localPoint, event.modifiers);
             }
         }
     }
@@ -117,12 +117,34 @@ describe ('/persona/Persona', () => {
         expect(instance.radius).to.equal(30);
     });
 
+    it ('animates its radius to a new value', () => {
+        instance.updateRadius(20, true);
+        expect(instance.radius).to.equal(30);
+        instance.mRadiusEasing.update(150);
+        expect(instance.radius).to.equal(25);
+        instance.mRadiusEasing.update(150);
+        expect(instance.radius).to.equal(20);
+        expect(instance.mRadiusEasing).to.equal(null);
+
+        instance.updateRadius(30);
+        expect(instance.radius).to.equal(30);
+    });
+
     it ('sets/gets selected', () => {
         expect(instance.selected).to.equal(false);
         instance.selected = true;
         expect(instance.selected).to.equal(true);
     });
 
+    it ('sets/gets outlined', () => {
+        expect(instance.outlined).to.equal(false);
+        instance.outlined = true;
+        expect(instance.outlined).to.equal(true);
+        expect(instance.mBackground.strokeColor).to.equal(Config.outlinedBorderColor);
+        instance.outlined = false;
+        expect(instance.mBackground.strokeColor).to.equal(Config.selectedBorderColor);
+    });
+
     it ('sets/gets globalScale', () => {
         instance.globalScale = 30;
         expect(instance.globalScale).to.equal(30);
@@ -140,4 +162,16 @@ describe ('/persona/Persona', () => {
         expect(instance.links[1].target).to.equal('other_test_updated_1');
         expect(instance.links[1].strength).to.equal(0.2);
     });
+
+    it ('keeps the updated gauge values while highlighted', () => {
+        instance.highlight({ totalCount: 100, properties: [{ count: 50, color: '#ff0000' }] }, false);
+        instance.updateData(data);
+        expect(instance.mGauge.bars.length).to.equal(1);
+        expect(instance.mGauge.bars[0].progress).to.equal(0.5);
+
+        instance.unhighlight(false);
+        expect(instance.mGauge.bars.length).to.equal(3);
+        expect(instance.mGauge.bars[0].progress).to.equal(37 / 111);
+        expect(instance.mGauge.bars[0].color).to.equal('#d26502');
+    });
 });
@@ -224,6 +224,45 @@ export class Canvas extends Node {
         this.globalScale = this.mScale;
     }
 
+    /**
+     * Renders the current state of this canvas into a new canvas element at the specified scale. Cached nodes are
+     * re-rendered at the export scale and go back to the device scale on the next frame.
+     *
+     * @method renderToCanvas
+     * @param {Number} scale - The scale, relative to the size of this canvas in CSS pixels, of the new canvas.
+     * @param {Function=} drawOverlay - Called after the nodes are drawn with the context, scaled to CSS pixels, and the size of this canvas.
+     * @returns {HTMLCanvasElement}
+     */
+    renderToCanvas(scale, drawOverlay = null) {
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(this.size.width * scale);
+        canvas.height = Math.round(this.size.height * scale);
+
+        const context = canvas.getContext('2d');
+        const matrix = new Matrix();
+        const matrixStack = new MatrixStack();
+        matrix.scale(scale, scale);
+        matrixStack.push(matrix);
+        matrixStack.apply(context);
+
+        this.mChildren.forEach(child => {
+            child.deviceScale = scale;
+        });
+        this.draw(context, matrixStack);
+        this.mChildren.forEach(child => {
+            child.deviceScale = this.deviceScale;
+        });
+
+        if (drawOverlay) {
+            context.setTransform(scale, 0, 0, scale, 0, 0);
+            drawOverlay(context, this.size.width, this.size.height);
+        }
+
+        matrix.release();
+        matrixStack.release();
+        return canvas;
+    }
+
     /**
      * Function called every time the browser is ready to draw a new frame.
      *
@@ -0,0 +1,540 @@
+/**
+ * Copyright (c) 2017 Uncharted Software Inc.
+ * http://www.uncharted.software/
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is furnished to do
+ * so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import IObject from '../core/IObject.js';
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink';
+const FULL_CIRCLE = Math.PI * 2;
+
+/**
+ * Context properties saved and restored by `save` and `restore`.
+ *
+ * @type {Array}
+ */
+const STATE_PROPERTIES = ['fillStyle', 'strokeStyle', 'lineWidth', 'lineCap', 'globalAlpha', 'font', 'textAlign', 'textBaseline'];
+
+/**
+ * SVG equivalents of the canvas `textAlign` values.
+ *
+ * @type {Object}
+ */
+const TEXT_ANCHORS = {
+    start: 'start',
+    left: 'start',
+    center: 'middle',
+    right: 'end',
+    end: 'end',
+};
+
+/**
+ * SVG equivalents of the canvas `textBaseline` values.
+ *
+ * @type {Object}
+ */
+const TEXT_BASELINES = {
+    top: 'text-before-edge',
+    hanging: 'hanging',
+    middle: 'central',
+    alphabetic: 'alphabetic',
+    ideographic: 'ideographic',
+    bottom: 'text-after-edge',
+};
+
+/**
+ * Rounds a number to three decimals and converts it to a string.
+ *
+ * @param {Number} value - The number to format.
+ * @returns {String}
+ */
+function formatNumber(value) {
+    return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Escapes the characters that have a special meaning in XML.
+ *
+ * @param {*} value - The value to escape.
+ * @returns {String}
+ */
+function escapeXML(value) {
+    return String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Drawing context that implements the subset of the CanvasRenderingContext2D API used by the primitives, the layouts and
+ * the avatars, but records every fill, stroke, text and image as an SVG element instead of rasterizing it.
+ *
+ * @class SVGContext
+ */
+export class SVGContext extends IObject {
+    /**
+     * @constructor
+     * @param {Number} width - The width of the SVG document.
+     * @param {Number} height - The height of the SVG document.
+     */
+    constructor(width, height) {
+        super();
+        this.mWidth = width;
+        this.mHeight = height;
+        this.mElements = [];
+        this.mDefs = [];
+        this.mPath = [];
+        this.mHasCurrentPoint = false;
+        this.mStates = [];
+        this.mTransform = [1, 0, 0, 1, 0, 0];
+        this.mClips = [];
+        this.mMeasureContext = null;
+
+        this.fillStyle = '#000000';
+        this.strokeStyle = '#000000';
+        this.lineWidth = 1;
+        this.lineCap = 'butt';
+        this.globalAlpha = 1;
+        this.font = '10px sans-serif';
+        this.textAlign = 'start';
+        this.textBaseline = 'alphabetic';
+    }
+
+    /**
+     * Destroys this object. Called automatically when the reference count of this object reaches zero.
+     *
+     * @method destroy
+     */
+    destroy() {
+        delete this.mWidth;
+        delete this.mHeight;
+        delete this.mElements;
+        delete this.mDefs;
+        delete this.mPath;
+        delete this.mHasCurrentPoint;
+        delete this.mStates;
+        delete this.mTransform;
+        delete this.mClips;
+        delete this.mMeasureContext;
+
+        super.destroy();
+    }
+
+    /**
+     * Saves the current transformation, clipping region and drawing properties.
+     *
+     * @method save
+     */
+    save() {
+        const state = {
+            transform: this.mTransform.slice(),
+            clips: this.mClips.slice(),
+        };
+        STATE_PROPERTIES.forEach(property => {
+            state[property] = this[property];
+        });
+        this.mStates.push(state);
+    }
+
+    /**
+     * Restores the state saved by the last call to `save`.
+     *
+     * @method restore
+     */
+    restore() {
+        const state = this.mStates.pop();
+        if (state) {
+            this.mTransform = state.transform;
+            this.mClips = state.clips;
+            STATE_PROPERTIES.forEach(property => {
+                this[property] = state[property];
+            });
+        }
+    }
+
+    /**
+     * Replaces the current transformation.
+     *
+     * @method setTransform
+     * @param {Number} a - Horizontal scaling.
+     * @param {Number} b - Vertical skewing.
+     * @param {Number} c - Horizontal skewing.
+     * @param {Number} d - Vertical scaling.
+     * @param {Number} e - Horizontal translation.
+     * @param {Number} f - Vertical translation.
+     */
+    setTransform(a, b, c, d, e, f) {
+        this.mTransform = [a, b, c, d, e, f];
+    }
+
+    /**
+     * Multiplies the current transformation by the given one.
+     *
+     * @method transform
+     * @param {Number} a - Horizontal scaling.
+     * @param {Number} b - Vertical skewing.
+     * @param {Number} c - Horizontal skewing.
+     * @param {Number} d - Vertical scaling.
+     * @param {Number} e - Horizontal translation.
+     * @param {Number} f - Vertical translation.
+     */
+    transform(a, b, c, d, e, f) {
+        const m = this.mTransform;
+        this.mTransform = [
+            m[0] * a + m[2] * b,
+            m[1] * a + m[3] * b,
+            m[0] * c + m[2] * d,
+            m[1] * c + m[3] * d,
+            m[0] * e + m[2] * f + m[4],
+            m[1] * e + m[3] * f + m[5],
+        ];
+    }
+
+    /**
+     * Adds a translation to the current transformation.
+     *
+     * @method translate
+     * @param {Number} x - The horizontal translation.
+     * @param {Number} y - The vertical translation.
+     */
+    translate(x, y) {
+        this.transform(1, 0, 0, 1, x, y);
+    }
+
+    /**
+     * Adds a scaling to the current transformation.
+     *
+     * @method scale
+     * @param {Number} x - The horizontal scale.
+     * @param {Number} y - The vertical scale.
+     */
+    scale(x, y) {
+        this.transform(x, 0, 0, y, 0, 0);
+    }
+
+    /**
+     * Starts a new path.
+     *
+     * @method beginPath
+     */
+    beginPath() {
+        this.mPath.length = 0;
+        this.mHasCurrentPoint = false;
+    }
+
+    /**
+     * Closes the current sub-path.
+     *
+     * @method closePath
+     */
+    closePath() {
+        if (this.mPath.length) {
+            this.mPath.push('Z');
+        }
+    }
+
+    /**
+     * Starts a new sub-path at the given point.
+     *
+     * @method moveTo
+     * @param {Number} x - The x coordinate of the point.
+     * @param {Number} y - The y coordinate of the point.
+     */
+    moveTo(x, y) {
+        this.mPath.push(`M${formatNumber(x)} ${formatNumber(y)}`);
+        this.mHasCurrentPoint = true;
+    }
+
+    /**
+     * Adds a straight line to the current sub-path.
+     *
+     * @method lineTo
+     * @param {Number} x - The x coordinate of the end point.
+     * @param {Number} y - The y coordinate of the end point.
+     */
+    lineTo(x, y) {
+        this.mPath.push(`${this.mHasCurrentPoint ? 'L' : 'M'}${formatNumber(x)} ${formatNumber(y)}`);
+        this.mHasCurrentPoint = true;
+    }
+
+    /**
+     * Adds a quadratic Bézier curve to the current sub-path.
+     *
+     * @method quadraticCurveTo
+     * @param {Number} cpx - The x coordinate of the control point.
+     * @param {Number} cpy - The y coordinate of the control point.
+     * @param {Number} x - The x coordinate of the end point.
+     * @param {Number} y - The y coordinate of the end point.
+     */
+    quadraticCurveTo(cpx, cpy, x, y) {
+        this.mPath.push(`Q${[cpx, cpy, x, y].map(formatNumber).join(' ')}`);
+        this.mHasCurrentPoint = true;
+    }
+
+    /**
+     * Adds a cubic Bézier curve to the current sub-path.
+     *
+     * @method bezierCurveTo
+     * @param {Number} cp1x - The x coordinate of the first control point.
+     * @param {Number} cp1y - The y coordinate of the first control point.
+     * @param {Number} cp2x - The x coordinate of the second control point.
+     * @param {Number} cp2y - The y coordinate of the second control point.
+     * @param {Number} x - The x coordinate of the end point.
+     * @param {Number} y - The y coordinate of the end point.
+     */
+    bezierCurveTo(cp1x, cp1y, cp2x, cp2y, x, y) {
+        this.mPath.push(`C${[cp1x, cp1y, cp2x, cp2y, x, y].map(formatNumber).join(' ')}`);
+        this.mHasCurrentPoint = true;
+    }
+
+    /**
+     * Adds a circular arc to the current sub-path, following the same rules as `CanvasRenderingContext2D.arc`.
+     *
+     * @method arc
+     * @param {Number} x - The x coordinate of the center of the arc.
+     * @param {Number} y - The y coordinate of the center of the arc.
+     * @param {Number} radius - The radius of the arc.
+     * @param {Number} startAngle - The start angle, in radians.
+     * @param {Number} endAngle - The end angle, in radians.
+     * @param {Boolean=} anticlockwise - Should the arc be drawn anticlockwise.
+     */
+    arc(x, y, radius, startAngle, endAngle, anticlockwise = false) {
+        const r = formatNumber(radius);
+        const sweepFlag = anticlockwise ? 0 : 1;
+        let sweep = anticlockwise ? startAngle - endAngle : endAngle - startAngle;
+
+        this.mPath.push(`${this.mHasCurrentPoint ? 'L' : 'M'}${formatNumber(x + Math.cos(startAngle) * radius)} ${formatNumber(y + Math.sin(startAngle) * radius)}`);
+        this.mHasCurrentPoint = true;
+
+        if (sweep >= FULL_CIRCLE) {
+            /* a single SVG arc can't start and end on the same point, draw the circle in two halves */
+            const oppositeX = formatNumber(x - Math.cos(startAngle) * radius);
+            const oppositeY = formatNumber(y - Math.sin(startAngle) * radius);
+            this.mPath.push(`A${r} ${r} 0 0 ${sweepFlag} ${oppositeX} ${oppositeY}`);
+            this.mPath.push(`A${r} ${r} 0 0 ${sweepFlag} ${formatNumber(x + Math.cos(startAngle) * radius)} ${formatNumber(y + Math.sin(startAngle) * radius)}`);
+        } else {
+            sweep = ((sweep % FULL_CIRCLE) + FULL_CIRCLE) % FULL_CIRCLE;
+            const largeArcFlag = sweep > Math.PI ? 1 : 0;
+            this.mPath.push(`A${r} ${r} 0 ${largeArcFlag} ${sweepFlag} ${formatNumber(x + Math.cos(endAngle) * radius)} ${formatNumber(y + Math.sin(endAngle) * radius)}`);
+        }
+    }
+
+    /**
+     * Adds a closed rectangle to the current path.
+     *
+     * @method rect
+     * @param {Number} x - The x coordinate of the rectangle.
+     * @param {Number} y - The y coordinate of the rectangle.
+     * @param {Number} width - The width of the rectangle.
+     * @param {Number} height - The height of the rectangle.
+     */
+    rect(x, y, width, height) {
+        this.mPath.push(`M${formatNumber(x)} ${formatNumber(y)}h${formatNumber(width)}v${formatNumber(height)}h${formatNumber(-width)}Z`);
+        this.mHasCurrentPoint = true;
+    }
+
+    /**
+     * Fills the current path with the current `fillStyle`.
+     *
+     * @method fill
+     */
+    fill() {
+        if (this.mPath.length) {
+            this._addElement('path', { d: this.mPath.join(''), fill: this.fillStyle });
+        }
+    }
+
+    /**
+     * Strokes the current path with the current `strokeStyle`, `lineWidth` and `lineCap`.
+     *
+     * @method stroke
+     */
+    stroke() {
+        if (this.mPath.length) {
+            this._addElement('path', {
+                'd': this.mPath.join(''),
+                'fill': 'none',
+                'stroke': this.strokeStyle,
+                'stroke-width': formatNumber(this.lineWidth),
+                'stroke-linecap': this.lineCap,
+            });
+        }
+    }
+
+    /**
+     * Intersects the current clipping region with the current path.
+     *
+     * @method clip
+     */
+    clip() {
+        const id = `revi-clip-${this.mDefs.length}`;
+        this.mDefs.push(`<clipPath id="${id}" clipPathUnits="userSpaceOnUse"><path${this._getTransformAttribute()} d="${this.mPath.join('')}"/></clipPath>`);
+        this.mClips.push(id);
+    }
+
+    /**
+     * Fills a rectangle with the current `fillStyle`, the current path is not modified.
+     *
+     * @method fillRect
+     * @param {Number} x - The x coordinate of the rectangle.
+     * @param {Number} y - The y coordinate of the rectangle.
+     * @param {Number} width - The width of the rectangle.
+     * @param {Number} height - The height of the rectangle.
+     */
+    fillRect(x, y, width, height) {
+        this._addElement('rect', {
+            x: formatNumber(x),
+            y: formatNumber(y),
+            width: formatNumber(width),
+            height: formatNumber(height),
+            fill: this.fillStyle,
+        });
+    }
+
+    /**
+     * Clearing has no meaning in a vector document, provided for compatibility.
+     *
+     * @method clearRect
+     */
+    clearRect() {
+        /* nothing to do */
+    }
+
+    /**
+     * Adds a text element using the current `font`, `fillStyle`, `textAlign` and `textBaseline`.
+     *
+     * @method fillText
+     * @param {String} text - The text to add.
+     * @param {Number} x - The x coordinate of the text.
+     * @param {Number} y - The y coordinate of the text.
+     */
+    fillText(text, x, y) {
+        this._addElement('text', {
+            'x': formatNumber(x),
+            'y': formatNumber(y),
+            'style': `font:${this.font}`,
+            'text-anchor': TEXT_ANCHORS[this.textAlign] || 'start',
+            'dominant-baseline': TEXT_BASELINES[this.textBaseline] || 'alphabetic',
+            'fill': this.fillStyle,
+        }, escapeXML(text));
+    }
+
+    /**
+     * Measures the given text with the current `font`.
+     *
+     * @method measureText
+     * @param {String} text - The text to measure.
+     * @returns {TextMetrics}
+     */
+    measureText(text) {
+        if (!this.mMeasureContext) {
+            this.mMeasureContext = document.createElement('canvas').getContext('2d');
+        }
+        this.mMeasureContext.font = this.font;
+        return this.mMeasureContext.measureText(text);
+    }
+
+    /**
+     * Adds an image, accepts the same argument combinations as `CanvasRenderingContext2D.drawImage`. Canvases are
+     * embedded as PNG data URLs, images are referenced by their URL.
+     *
+     * @method drawImage
+     * @param {HTMLImageElement|HTMLCanvasElement} image - The image to add.
+     * @param {...Number} varArgs - The destination, or the source and the destination, of the image.
+     */
+    drawImage(image, ...varArgs) {
+        const href = typeof image.toDataURL === 'function' ? image.toDataURL('image/png') : image.src;
+        if (!href || !image.width || !image.height) {
+            return;
+        }
+
+        let source = [0, 0, image.width, image.height];
+        let destination;
+        if (varArgs.length >= 8) {
+            source = varArgs.slice(0, 4);
+            destination = varArgs.slice(4, 8);
+        } else if (varArgs.length >= 4) {
+            destination = varArgs.slice(0, 4);
+        } else {
+            destination = [varArgs[0], varArgs[1], image.width, image.height];
+        }
+
+        const viewBox = source.map(formatNumber).join(' ');
+        const position = destination.map(formatNumber);
+        const imageElement = `<image width="${image.width}" height="${image.height}" xlink:href="${escapeXML(href)}"/>`;
+        this._addElement('g', {}, `<svg x="${position[0]}" y="${position[1]}" width="${position[2]}" height="${position[3]}" viewBox="${viewBox}" preserveAspectRatio="none">${imageElement}</svg>`);
+    }
+
+    /**
+     * Returns the SVG document with all the elements recorded so far.
+     *
+     * @method serialize
+     * @returns {String}
+     */
+    serialize() {
+        const width = formatNumber(this.mWidth);
+        const height = formatNumber(this.mHeight);
+        const defs = this.mDefs.length ? `<defs>${this.mDefs.join('')}</defs>` : '';
+        return `<svg xmlns="${SVG_NAMESPACE}" xmlns:xlink="${XLINK_NAMESPACE}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${defs}${this.mElements.join('')}</svg>`;
+    }
+
+    /**
+     * Returns the `transform` attribute for the current transformation, an empty string for the identity.
+     *
+     * @method _getTransformAttribute
+     * @returns {String}
+     * @private
+     */
+    _getTransformAttribute() {
+        const m = this.mTransform;
+        if (m[0] === 1 && m[1] === 0 && m[2] === 0 && m[3] === 1 && m[4] === 0 && m[5] === 0) {
+            return '';
+        }
+        return ` transform="matrix(${m.map(formatNumber).join(' ')})"`;
+    }
+
+    /**
+     * Records an element with the current transformation, opacity and clipping region.
+     *
+     * @method _addElement
+     * @param {String} name - The name of the element.
+     * @param {Object} attributes - The attributes of the element.
+     * @param {String=} content - The already escaped content of the element.
+     * @private
+     */
+    _addElement(name, attributes, content = null) {
+        let markup = `<${name}${this._getTransformAttribute()}`;
+        Object.keys(attributes).forEach(key => {
+            markup += ` ${key}="${escapeXML(attributes[key])}"`;
+        });
+        if (this.globalAlpha < 1) {
+            markup += ` opacity="${formatNumber(this.globalAlpha)}"`;
+        }
+        markup += content === null ? '/>' : `>${content}</${name}>`;
+
+        /* clip paths are defined in document coordinates, wrap the element in untransformed groups to apply them */
+        for (let i = this.mClips.length - 1; i >= 0; --i) {
+            markup = `<g clip-path="url(#${this.mClips[i]})">${markup}</g>`;
+        }
+
+        this.mElements.push(markup);
+    }
+}
+
+export default SVGContext;
@@ -241,7 +241,7 @@ export class InputManager extends IBindable {
             const rect = this.mElement.getBoundingClientRect();
             const x = (inputEvent.clientX - rect.left) / this.mInputScale;
             const y = (inputEvent.clientY - rect.top) / this.mInputScale;
-            const pointerEvent = PointerEvent.instance(eventType, x, y, 123456789, Date.now());
+            const pointerEvent = PointerEvent.instance(eventType, x, y, 123456789, Date.now(), inputEvent);
             this.emit(eventType, this, pointerEvent);
         }
     }
@@ -271,7 +271,7 @@ export class InputManager extends IBindable {
                     const x = (touch.clientX - rect.left) / this.mInputScale;
                     const y = (touch.clientY - rect.top) / this.mInputScale;
 
-                    const pointerEvent = PointerEvent.instance(inputEventType, x, y, touch.identifier, Date.now());
+                    const pointerEvent = PointerEvent.instance(inputEventType, x, y, touch.identifier, Date.now(), inputEvent);
                     this.emit(inputEventType, this, pointerEvent);
 
                     if (shouldResetTouchID) {
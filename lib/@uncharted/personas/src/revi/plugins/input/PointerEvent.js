@@ -34,13 +34,20 @@ export class PointerEvent extends IObject {
      * @param {Number} y - The Y coordinate of the event.
      * @param {Number} identifier - A number identifying the mouse or touch which triggered this event.
      * @param {Number} timestamp - the timestamp of this event.
+     * @param {Object=} modifiers - The state of the modifier keys when this event was triggered.
      */
-    constructor(type, x, y, identifier, timestamp) {
+    constructor(type, x, y, identifier, timestamp, modifiers = null) {
         super();
         this.mType = type;
         this.mPoint = new Point(x, y);
         this.mIdentifier = identifier;
         this.mTimestamp = timestamp;
+        this.mModifiers = Object.freeze({
+            altKey: Boolean(modifiers && modifiers.altKey),
+            ctrlKey: Boolean(modifiers && modifiers.ctrlKey),
+            metaKey: Boolean(modifiers && modifiers.metaKey),
+            shiftKey: Boolean(modifiers && modifiers.shiftKey),
+        });
 
         this.mPoint.freezeValues();
     }
@@ -58,6 +65,7 @@ export class PointerEvent extends IObject {
         delete this.mPoint;
         delete this.mIdentifier;
         delete this.mTimestamp;
+        delete this.mModifiers;
 
         super.destroy();
     }
@@ -115,6 +123,15 @@ export class PointerEvent extends IObject {
     get timestamp() {
         return this.mTimestamp;
     }
+
+    /**
+     * The state of the modifier keys (`altKey`, `ctrlKey`, `metaKey` and `shiftKey`) when this event was triggered.
+     *
+     * @type {Object}
+     */
+    get modifiers() {
+        return this.mModifiers;
+    }
 }
 
 export default PointerEvent;
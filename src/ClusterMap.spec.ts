@@ -21,6 +21,7 @@
  * SOFTWARE.
  */
 
+
 // fake powerbi functions
 window['powerbi'] = {
     DataViewObjects: {
@@ -35,6 +36,13 @@ window['powerbi'] = {
     },
     extensibility: {
         visualApiVersions: [],
+        utils: {
+            formatting: {
+                valueFormatter: {
+                    create: (obj) => ({ format: (value) => String(value) }),
+                },
+            },
+        },
     },
     data: {
         SQExprBuilder: {
@@ -44,31 +52,258 @@ window['powerbi'] = {
         }
     },
     VisualUpdateType: {
-        Data: 1,
-    }
+        Data: 2,
+        Resize: 4,
+        ResizeEnd: 32,
+    },
+    VisualDataChangeOperationKind: {
+        Create: 0,
+        Append: 1,
+    },
 };
 
+/**
+ * Stands in for the personas view, which draws in a canvas jsdom doesn't provide. It keeps the data loaded in each
+ * layer and a wrapper for each persona of the top layer, which is what the visual reads back from the view.
+ */
+class MockPersonas {
+    public static instances: MockPersonas[] = [];
+
+    public config: any;
+    public layers: any[] = [];
+    public personas: any[] = [];
+    public handlers: any = {};
+    public layoutType: string;
+    public layoutConfig: any = { layoutPositionAnimationDuration: 0 };
+    public displayBreadcrumbs: boolean = false;
+    public loadMoreText: string = '';
+    public deviceScale: number = 1;
+    public zoom: any = null;
+    public manualPositions: any = {};
+    public mCanvas: any = { reviContext: null };
+
+    public loadData: any = jasmine.createSpy('loadData').and.callFake((data, update) => {
+        this.layers = update ? this.layers.slice(0, -1) : [];
+        this.layers.push(data);
+        this.loadTopLayer();
+    });
+    public addDataLayer: any = jasmine.createSpy('addDataLayer').and.callFake(data => {
+        this.layers.push(data);
+        this.loadTopLayer();
+    });
+    public removeDataLayer: any = jasmine.createSpy('removeDataLayer').and.callFake((count = 1) => {
+        this.layers = this.layers.slice(0, -count);
+        this.loadTopLayer();
+    });
+    public updateDataLayers: any = jasmine.createSpy('updateDataLayers').and.callFake(layersData => {
+        this.layers = layersData.slice(0, Math.max(this.layers.length, 1));
+        this.loadTopLayer();
+    });
+    public resetLayout: any = jasmine.createSpy('resetLayout').and.callFake(() => {
+        this.manualPositions = {};
+    });
+    public exportImage: any = jasmine.createSpy('exportImage').and.returnValue({ toDataURL: () => 'data:image/png;base64,AA==' });
+    public exportSVG: any = jasmine.createSpy('exportSVG').and.returnValue('<svg/>');
+    public highlight: any = jasmine.createSpy('highlight');
+    public unhighlight: any = jasmine.createSpy('unhighlight');
+    public autoZoom: any = jasmine.createSpy('autoZoom');
+    public zoomIn: any = jasmine.createSpy('zoomIn');
+    public zoomOut: any = jasmine.createSpy('zoomOut');
+    public resize: any = jasmine.createSpy('resize');
+    public showLinkLabels: any = jasmine.createSpy('showLinkLabels');
+    public updateLayoutConfig: any = jasmine.createSpy('updateLayoutConfig');
+    public enableBlur: any = jasmine.createSpy('enableBlur');
+    public release: any = jasmine.createSpy('release');
+
+    constructor(element: HTMLElement, config: any) {
+        this.config = config;
+        this.layoutType = config.layout.layoutType;
+        MockPersonas.instances.push(this);
+    }
+
+    public get breadcrumbs(): any[] {
+        return this.layers;
+    }
+
+    public on(events: string | string[], handler: Function): void {
+        [].concat(events).forEach(event => (this.handlers[event] = this.handlers[event] || []).push(handler));
+    }
+
+    public emit(event: string, ...args: any[]): void {
+        (this.handlers[event] || []).forEach(handler => handler(...args));
+    }
+
+    public getPersona(id: string): any {
+        const wrapper = this.personas.find(w => w.id === id);
+        return wrapper ? wrapper.object : null;
+    }
+
+    private loadTopLayer(): void {
+        const data = this.layers[this.layers.length - 1];
+        this.personas = data ? data.personas.map(personaData => this.personas.find(w => w.id === personaData.id) || {
+            id: personaData.id,
+            object: {
+                id: personaData.id,
+                selected: false,
+                outlined: false,
+                focused: true,
+                label: { showName: true },
+                setFocus: function (focused) {
+                    this.focused = focused;
+                },
+                showSubLevelBadge: () => {},
+                hideSubLevelBadge: () => {},
+            },
+        }) : [];
+        this.manualPositions = $.extend({}, data && data.positions);
+    }
+}
+
+/* jest only lets the module factories reach the variables named after mocks */
+const mockPersonasClass = MockPersonas;
+jest.mock('../lib/@uncharted/personas/src/Personas.js', () => Object.assign({}, require.requireActual('../lib/@uncharted/personas/src/Personas.js'), {
+    Personas: mockPersonasClass,
+}));
+/* webpack inlines the bundle of the worker as a string, the fake worker runs its message handler instead */
+jest.mock('./fold.worker', () => 'fold worker source');
+
 import * as $ from 'jquery';
 global['$'] = global['jQuery'] = $;
+import * as _ from 'lodash';
+global['_'] = _;
 import ClusterMap from './ClusterMap';
+import { createFoldHandler } from './fold';
+import { PersonaEvents, LayoutEvents, BreadcrumbEvents } from '../lib/@uncharted/personas/src/Personas.js';
+
+/**
+ * Stands in for the Web Worker, which jsdom doesn't provide. It runs the message handler of the worker entry and only
+ * folds the posted requests and delivers their replies when the test asks for them. The messages are cloned in both
+ * directions, they only hold JSON values.
+ */
+class FakeWorker {
+    public static instances: FakeWorker[] = [];
+
+    public onmessage: (e: any) => void = null;
+    public onerror: (e: any) => void = null;
+    public requests: any[] = [];
+    public replies: any[] = [];
+    public terminate: any = jasmine.createSpy('terminate');
+    private handler: (e: any) => void = createFoldHandler(message => this.replies.push(JSON.parse(JSON.stringify(message))));
+
+    constructor(url: string) {
+        FakeWorker.instances.push(this);
+    }
+
+    public postMessage(message: any): void {
+        this.requests.push(JSON.parse(JSON.stringify(message)));
+    }
+
+    public run(): void {
+        this.requests.splice(0).forEach(request => this.handler({ data: request }));
+    }
+
+    public reply(count: number = this.replies.length): void {
+        this.replies.splice(0, count).forEach(reply => this.onmessage({ data: reply }));
+    }
+}
+
+function createDataView(roles: string[], rows: any[][]): any {
+    return {
+        metadata: {
+            columns: roles.map(role => ({ roles: { [role]: true } })),
+        },
+        table: {
+            columns: roles.map(role => ({ roles: { [role]: true } })),
+            rows: rows,
+            identity: rows.map(() => ({})),
+        },
+        categorical: {
+            categories: [{}],
+        },
+    };
+}
+
+function createHost(): any {
+    const host: any = {
+        selectionManager: {
+            hostServices: {
+                loadMoreData: jasmine.createSpy('loadMoreData'),
+            },
+            registerOnSelectCallback: callback => host.onSelect = callback,
+            clear: jasmine.createSpy('clear'),
+            select: jasmine.createSpy('select'),
+        },
+        tooltipService: {
+            enabled: () => true,
+            show: jasmine.createSpy('show'),
+            move: jasmine.createSpy('move'),
+            hide: jasmine.createSpy('hide'),
+        },
+        persistProperties: jasmine.createSpy('persistProperties'),
+        createSelectionManager: () => host.selectionManager,
+        createSelectionIdBuilder: () => {
+            const keys = [];
+            const builder = {
+                withCategory: (category, index) => {
+                    keys.push(category.source ? `${category.source.displayName}=${index}` : String(index));
+                    return builder;
+                },
+                createSelectionId: () => ({ key: keys.join('|') }),
+            };
+            return builder;
+        },
+    };
+    return host;
+}
+
+function createVisual(): any {
+    const parent = document.createElement('div');
+    const element = document.createElement('div');
+    parent.appendChild(element);
+    document.body.appendChild(parent);
+    const host = createHost();
+    return {
+        visual: new ClusterMap(<any>{ element: element, host: host }),
+        host: host,
+        parent: parent,
+    };
+}
+
+function updateVisual(visual: any, dataView: any, objects: any = {}, operationKind?: number): void {
+    dataView.metadata.objects = objects;
+    visual.update({
+        type: powerbi.VisualUpdateType.Data,
+        viewport: { width: 400, height: 300 },
+        dataViews: [dataView],
+        operationKind: operationKind,
+    });
+}
+
+function wait(delay: number): Promise<void> {
+    return new Promise<void>(resolve => setTimeout(() => resolve(), delay));
+}
 
 describe('ClusterMap Visual', () => {
+    /* the view state is saved once the interactions have been idle for a second */
+    const SAVE_DELAY = 1100;
     let visual;
+    let host;
+    let parent;
 
-    beforeAll(function () {
-        const element = $('<div></div>');
-        const parent = $('<div></div>');
-        parent.append(element);
-        const dummyHost = {
-            createSelectionManager: () => ({
-                hostServices: 'hostService',
-                registerOnSelectCallback: () => {}
-            }),
-        };
-        visual = new ClusterMap(<any>{
-            element: element[0],
-            host: dummyHost,
-        });
+    const view = (): MockPersonas => MockPersonas.instances[MockPersonas.instances.length - 1];
+    const topLevel = () => view().layers[view().layers.length - 1];
+    const ids = levelData => levelData.personas.map(p => p.id);
+    const overlay = (className: string): HTMLElement => parent.querySelector(`.${className}`);
+    const lastHighlight = () => view().highlight.calls.mostRecent().args[0].personas;
+
+    beforeEach(() => {
+        MockPersonas.instances.length = 0;
+        ({ visual, host, parent } = createVisual());
+    });
+
+    afterEach(() => {
+        visual.destroy();
+        document.body.removeChild(parent);
     });
 
     it('exists', () => {
@@ -98,7 +333,1029 @@ describe('ClusterMap Visual', () => {
         expect(instanceProperties.showNameLabels).toBe(true);
     });
 
+    it('enumerateObjectInstances only lists the tuning options of the selected layout', () => {
+        const dataView = createDataView(['PersonaGroup', 'ReferenceName', 'ReferenceCount'], [['1', 'One', 1]]);
+        const properties = layout => {
+            updateVisual(visual, dataView, { presentation: { layout: layout } });
+            return visual.enumerateObjectInstances({ objectName: 'presentation' })[0].properties;
+        };
+
+        expect(properties('cola').layoutPadding).toBe(0);
+        expect(properties('cola').layoutRepulsion).toBeUndefined();
+        expect(properties('force-directed').layoutPadding).toBe(0);
+        expect(properties('force-directed').layoutRepulsion).toBe(30);
+        expect(properties('physical').layoutPadding).toBeUndefined();
+        expect(properties('physical').layoutRepulsion).toBeUndefined();
+    });
+
+    it('uses the cluster color for the background and the gauge palette', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceBucket', 'ReferenceBackgroundColor'],
+            [
+                ['1', 'Red', 10, 'a', 'red'],
+                ['1', 'Red', 5, 'b', 'red'],
+                ['2', 'Invalid', 8, 'a', 'not-a-color'],
+                ['3', 'Rgb', 4, 'a', 'rgb(0, 128, 255)'],
+                ['4', 'None', 2, 'a', null],
+            ]
+        );
+        updateVisual(visual, dataView);
+        const personas = topLevel().personas;
+        const red = personas.find(p => p.id === '1');
+        const invalid = personas.find(p => p.id === '2');
+        const rgb = personas.find(p => p.id === '3');
+        const none = personas.find(p => p.id === '4');
+
+        expect(red.backgroundColor).toBe('#ff0000');
+        expect(rgb.backgroundColor).toBe('#0080ff');
+        expect(invalid.backgroundColor).toBeUndefined();
+        expect(red.properties[0].color).not.toBe(invalid.properties[0].color);
+        expect(invalid.properties[0].color).toBe(none.properties[0].color);
+    });
+
+    it('aggregates the personas beyond the max cluster count into an "Other" persona', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceBucket'],
+            [
+                ['1', 'One', 10, 'a'],
+                ['2', 'Two', 8, 'a'],
+                ['3', 'Three', 4, 'a'],
+                ['4', 'Four', 2, 'b'],
+            ]
+        );
+        dataView.categorical.values = [{ highlights: [null, null, 1, 2] }];
+        updateVisual(visual, dataView, { presentation: { initialCount: 2, showOther: true } });
+
+        const personas = topLevel().personas;
+        const other = personas[personas.length - 1];
+        expect(personas.length).toBe(3);
+        expect(other.isOther).toBe(true);
+        expect(other.label).toBe('Other');
+        expect(other.totalCount).toBe(6);
+        expect(other.hiddenIds).toEqual(['3', '4']);
+        expect(other.hiddenSelect.length).toBe(2);
+        expect(other.properties.map(p => p.count)).toEqual([4, 2]);
+
+        const highlight = lastHighlight();
+        expect(highlight.length).toBe(1);
+        expect(highlight[0].id).toBe(other.id);
+        expect(highlight[0].properties.map(p => p.count)).toEqual([1, 2]);
+    });
+
+    it('keeps the personas beyond the max cluster count hidden until more are loaded', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount'],
+            [
+                ['1', 'One', 10],
+                ['2', 'Two', 8],
+                ['3', 'Three', 4],
+                ['4', 'Four', 2],
+            ]
+        );
+        dataView.categorical.values = [{ highlights: [null, null, 1, 2] }];
+        updateVisual(visual, dataView, { presentation: { initialCount: 2, showOther: true, loadMoreCount: 1 } });
+
+        const level = topLevel();
+        expect(ids(level)).toEqual(['1', '2', level.personas[2].id]);
+        expect(level.hiddenPersonas.map(p => p.id)).toEqual(['3', '4']);
+
+        view().emit(LayoutEvents.LAYOUT_LOAD_MORE_CLICKED);
+        const other = level.personas[level.personas.length - 1];
+        expect(view().loadData.calls.mostRecent().args).toEqual([level, true, false]);
+        expect(ids(level)).toEqual(['1', '2', '3', other.id]);
+        expect(level.hiddenPersonas.map(p => p.id)).toEqual(['4']);
+        expect(other.totalCount).toBe(2);
+        expect(other.hiddenIds).toEqual(['4']);
+        expect(level.personas[0].scalingFactor).toBe(1);
+        expect(other.scalingFactor).toBe(0);
+        expect(lastHighlight().map(p => p.id)).toEqual(['3', other.id]);
+        expect(lastHighlight().map(p => p.properties[0].count)).toEqual([1, 2]);
+    });
+
+    it('matches every persona of a multi-id selection', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount'],
+            [
+                ['1', 'One', 10],
+                ['2', 'Two', 8],
+                ['3', 'Three', 4],
+                ['4', 'Four', 2],
+            ]
+        );
+        updateVisual(visual, dataView, { presentation: { initialCount: 2, showOther: true } });
+
+        const other = topLevel().personas[2];
+        const selectedIds = keys => {
+            host.onSelect(keys.map(key => ({ key: key })));
+            return view().personas.filter(wrapper => wrapper.object.selected).map(wrapper => wrapper.id);
+        };
+        expect(selectedIds(['0', '1'])).toEqual(['1', '2']);
+        expect(selectedIds(['1', '2'])).toEqual(['2']);
+        expect(selectedIds(['0', '2', '3'])).toEqual(['1', other.id]);
+    });
+
+    it('shows the tooltip of a persona with its buckets and the tooltip measures', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceBucket', 'Tooltips'],
+            [
+                ['1', 'One', 3, 'a', 100],
+                ['1', 'One', 1, 'b', 50],
+                ['2', 'Two', 2, 'a', 25],
+            ]
+        );
+        dataView.metadata.columns[4].displayName = 'Revenue';
+        updateVisual(visual, dataView);
+
+        view().emit(PersonaEvents.PERSONA_POINTER_OVER, view().getPersona('1'));
+        const tooltip = host.tooltipService.show.calls.mostRecent().args[0];
+        expect(tooltip.identities).toEqual([{ key: '0' }]);
+        expect(tooltip.dataItems[0]).toEqual({ header: 'One', displayName: 'Count', value: '4' });
+        expect(tooltip.dataItems.slice(1).map(item => [item.displayName, item.value])).toEqual([
+            ['a', '3 (0.75)'],
+            ['b', '1 (0.25)'],
+            ['Revenue', '150'],
+        ]);
+
+        view().emit(PersonaEvents.PERSONA_POINTER_OUT, view().getPersona('1'));
+        expect(host.tooltipService.hide).toHaveBeenCalled();
+    });
+
+    it('builds a legend from the buckets that highlights and selects a segment', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceBucket'],
+            [
+                ['1', 'One', 3, 'a'],
+                ['1', 'One', 1, 'b'],
+                ['2', 'Two', 2, 'a'],
+            ]
+        );
+        dataView.categorical.categories = [{}, { source: { displayName: 'Bucket' } }];
+        updateVisual(visual, dataView);
+
+        const legend = overlay('cluster-map-legend');
+        const items = () => Array.prototype.slice.call(legend.childNodes);
+        const selected = () => host.selectionManager.select.calls.mostRecent().args[0].map(select => select.key);
+        expect(legend.style.display).toBe('block');
+        expect(items().map(node => node.textContent)).toEqual(['a', 'b']);
+
+        /* the bucket is selected through the first row of its value in the bucket column */
+        items()[0].click();
+        expect(selected()).toEqual(['Bucket=0']);
+        items()[1].click();
+        expect(selected()).toEqual(['Bucket=1']);
+        expect(items().map(node => node.style.fontWeight)).toEqual(['normal', 'bold']);
+
+        const highlight = lastHighlight();
+        expect(highlight.length).toBe(1);
+        expect(highlight[0].id).toBe('1');
+        expect(highlight[0].properties.map(p => p.count)).toEqual([0, 1]);
+
+        updateVisual(visual, dataView, { legend: { show: false } });
+        expect(legend.style.display).toBe('none');
+    });
+
+    it('enumerates a color picker per bucket and uses the custom or palette colors', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceBucket'],
+            [
+                ['1', 'One', 3, 'a'],
+                ['1', 'One', 1, 'b'],
+                ['1', 'One', 1, 'c'],
+            ]
+        );
+        const bucketColors = { $instances: { b: { fill: { solid: { color: '#336699' } } } } };
+        host.colors = [{ value: '#ff0000' }, { value: '#00ff00' }];
+        updateVisual(visual, dataView, { bucketColors: bucketColors });
+
+        const instances = visual.enumerateObjectInstances({ objectName: 'bucketColors' });
+        expect(instances.length).toBe(4);
+        expect(instances[0].properties.usePalette).toBe(false);
+        expect(instances[0].properties.$instances).toBeUndefined();
+        expect(instances.slice(1).map(instance => instance.selector.id)).toEqual(['a', 'b', 'c']);
+        expect(instances[2].properties.fill.solid.color).toBe('#336699');
+
+        updateVisual(visual, dataView, { bucketColors: $.extend({ usePalette: true }, bucketColors) });
+        const properties = topLevel().personas[0].properties;
+        expect(properties.map(p => p.color)).toEqual(['#ff0000', '#336699', '#ff0000']);
+        expect(properties[1].selectedColor).toBeTruthy();
+        expect(properties[1].selectedColor).not.toBe('#336699');
+    });
+
+    it('sorts the personas by the configured field and scales their size', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'SortBy'],
+            [
+                ['1', 'Charlie', 100, 2],
+                ['2', 'Alpha', 25, 3],
+                ['3', 'Bravo', 0, 1],
+            ]
+        );
+        const sortedIds = presentation => {
+            updateVisual(visual, dataView, { presentation: $.extend({ sortBy: 'count', sortOrder: 'auto', sizeScale: 'linear' }, presentation) });
+            return ids(topLevel());
+        };
+        const scalingFactors = (sizeScale: string) => {
+            sortedIds({ sizeScale: sizeScale });
+            return topLevel().personas.map(p => p.scalingFactor);
+        };
+
+        expect(sortedIds({})).toEqual(['1', '2', '3']);
+        expect(sortedIds({ sortBy: 'label' })).toEqual(['2', '3', '1']);
+        expect(sortedIds({ sortBy: 'label', sortOrder: 'descending' })).toEqual(['1', '3', '2']);
+        expect(sortedIds({ sortBy: 'measure' })).toEqual(['2', '1', '3']);
+
+        expect(scalingFactors('linear')).toEqual([1, 0.25, 0]);
+        expect(scalingFactors('sqrt')).toEqual([1, 0.5, 0]);
+        expect(scalingFactors('uniform')).toEqual([1, 1, 1]);
+        expect(scalingFactors('log')[1]).toBeCloseTo(Math.log(26) / Math.log(101));
+    });
+
+    it('sizes the personas by the Size By measure while the gauge keeps the count', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'SizeBy'],
+            [
+                ['1', 'One', 10, 100],
+                ['2', 'Two', 40, 50],
+                ['3', 'Three', 20, 0],
+            ]
+        );
+        dataView.metadata.columns[3].displayName = 'Revenue';
+        updateVisual(visual, dataView);
+
+        const personas = topLevel().personas;
+        expect(personas.map(p => p.id)).toEqual(['2', '3', '1']);
+        expect(personas.map(p => p.totalCount)).toEqual([40, 20, 10]);
+        expect(personas.map(p => p.scalingFactor)).toEqual([0.5, 0, 1]);
+
+        view().emit(PersonaEvents.PERSONA_POINTER_OVER, view().getPersona('2'));
+        const tooltip = host.tooltipService.show.calls.mostRecent().args[0].dataItems;
+        expect(tooltip[0].value).toBe('40');
+        expect(tooltip.slice(1).map(item => [item.displayName, item.value])).toEqual([['Revenue', '50']]);
+    });
+
+    it('styles the links by their weight and merges the links in both directions', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceLinkTo', 'ReferenceLinkWeight'],
+            [
+                ['1', 'One', 30, '2', 10],
+                ['2', 'Two', 20, '1', 10],
+                ['2', 'Two', 20, '3', 2],
+                ['3', 'Three', 10, '1', 6],
+            ]
+        );
+        const links = (settings: any) => {
+            updateVisual(visual, dataView, { links: $.extend({ show: true, showArrows: false, mergePairs: true }, settings) });
+            return _.flatten(topLevel().personas.map(p => p.links.map(link => [p.id, link.target, link.width, link.arrow, link.label])));
+        };
+
+        expect(links({})).toEqual([
+            ['1', '2', 6, 'none', '10'],
+            ['2', '1', undefined, undefined, undefined],
+            ['2', '3', 1, 'none', '2'],
+            ['3', '1', 3.5, 'none', '6'],
+        ]);
+        const personas = topLevel().personas;
+        expect(personas[0].links[0].color).toBe('#41455e');
+        expect(personas[0].links[0].alpha).toBe(1);
+        expect(personas[1].links[1].color).toBe('#c6c9d3');
+        expect(personas[1].links[1].alpha).toBe(0.25);
+
+        expect(links({ mergePairs: false, showArrows: true }).map(link => link[3])).toEqual(['target', 'target', 'target', 'target']);
+        expect(links({ showArrows: true }).map(link => link[3])).toEqual(['both', undefined, 'target', 'target']);
+        expect(links({ show: false }).map(link => link[2])).toEqual([undefined, undefined, undefined, undefined]);
+    });
+
+    it('nests the levels of a Cluster ID hierarchy and rolls up their counts', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'PersonaGroup', 'PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceLinkTo'],
+            [
+                ['East', 'CA', 'Toronto', 'Toronto', 10, 'Boston'],
+                ['East', 'CA', 'Ottawa', 'Ottawa', 5, 'Toronto'],
+                ['East', 'US', 'Boston', 'Boston', 20, 'Seattle'],
+                ['West', 'US', 'Seattle', 'Seattle', 7, 'Boston'],
+            ]
+        );
+        dataView.categorical.categories = [{}, {}, {}];
+        updateVisual(visual, dataView);
+        const summary = level => level.personas.map(p => [p.id, p.label, p.totalCount, p.select.key]);
+
+        expect(summary(topLevel())).toEqual([
+            ['["East"]', 'East', 35, '0'],
+            ['["West"]', 'West', 7, '3'],
+        ]);
+        view().emit(PersonaEvents.PERSONA_SUB_LEVEL_CLICKED, view().getPersona('["East"]'));
+        expect(summary(topLevel())).toEqual([
+            ['["East","US"]', 'US', 20, '2|2'],
+            ['["East","CA"]', 'CA', 15, '0|0'],
+        ]);
+        view().emit(PersonaEvents.PERSONA_SUB_LEVEL_CLICKED, view().getPersona('["East","CA"]'));
+        expect(summary(topLevel())).toEqual([
+            ['["East","CA","Toronto"]', 'Toronto', 10, '0|0|0'],
+            ['["East","CA","Ottawa"]', 'Ottawa', 5, '1|1|1'],
+        ]);
+        expect(topLevel().personas[0].links.map(link => link.target)).toEqual(['["East","US","Boston"]']);
+        expect(host.selectionManager.select.calls.mostRecent().args[0]).toEqual([{ key: '0|0' }]);
+    });
+
+    it('rolls up the highlights of a Cluster ID hierarchy to the personas of each level', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'PersonaGroup', 'ReferenceName', 'ReferenceCount'],
+            [
+                ['East', 'CA', 'Canada', 10],
+                ['East', 'US', 'United States', 20],
+                ['West', 'US', 'United States', 7],
+            ]
+        );
+        dataView.categorical.categories = [{}, {}];
+        dataView.categorical.values = [{ highlights: [4, 6, null] }];
+        updateVisual(visual, dataView);
+        const summary = () => lastHighlight().map(p => [p.id, p.properties[0].count]);
+
+        expect(summary()).toEqual([
+            ['["East"]', 10],
+            ['["East","US"]', 6],
+            ['["East","CA"]', 4],
+        ]);
+    });
+
+    it('moves orphaned personas to the root, breaks parent cycles and reports them', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ParentID'],
+            [
+                ['a', 'A', 10, null],
+                ['b', 'B', 5, 'a'],
+                ['c', 'C', 3, 'missing'],
+                ['y', 'Y', 2, 'x'],
+                ['x', 'X', 1, 'y'],
+            ]
+        );
+        const summary = level => level.personas.map(p => [p.id, p.totalCount]);
+        const subLevel = (id: string) => {
+            view().emit(PersonaEvents.PERSONA_SUB_LEVEL_CLICKED, view().getPersona(id));
+            const level = summary(topLevel());
+            view().emit(BreadcrumbEvents.LAYOUT_BREADCRUMB_CLICKED, null, 0);
+            return level;
+        };
+
+        updateVisual(visual, dataView);
+        expect(summary(topLevel())).toEqual([['a', 10], ['c', 3], ['x', 1]]);
+        expect(subLevel('a')).toEqual([['b', 5]]);
+        expect(subLevel('x')).toEqual([['y', 2]]);
+
+        const info = overlay('cluster-map-hierarchy-info');
+        expect(info.style.display).toBe('none');
+        updateVisual(visual, dataView, { hierarchy: { rollUpCounts: true, showIssues: true } });
+        expect(summary(topLevel())).toEqual([['a', 15], ['c', 3], ['x', 3]]);
+        expect(info.style.display).toBe('block');
+        expect(info.innerText).toBe('Clusters with a missing parent moved to the top level: 1 (e.g. C)\nParent cycles broken: 1 (e.g. X > Y > X)');
+
+        /* like the diagnostics, only a few samples of the issues are listed */
+        const orphans = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ParentID'],
+            _.range(5).map(i => [`o${i}`, `O${i}`, 1, 'missing'])
+        );
+        updateVisual(visual, orphans);
+        expect(info.innerText).toBe('Clusters with a missing parent moved to the top level: 5 (e.g. O0, O1, O2)');
+
+        const singleRoot = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ParentID'],
+            [
+                ['a', 'A', 1, null],
+                ['b', 'B', 1, 'a'],
+            ]
+        );
+        updateVisual(visual, singleRoot, { hierarchy: { rollUpCounts: false } });
+        expect(summary(topLevel())).toEqual([['b', 1]]);
+        expect(info.innerText).toBe('Single top level cluster(s) skipped: A');
+        updateVisual(visual, singleRoot, { hierarchy: { collapseSingleRoot: false } });
+        expect(summary(topLevel())).toEqual([['a', 1]]);
+        expect(info.style.display).toBe('none');
+    });
+
+    it('lists the rows and values dropped while loading the data in the diagnostics panel', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceBackgroundColor', 'ReferenceImageUrl', 'ReferenceLinkTo'],
+            [
+                ['1', 'One', 10, 'red', 'https://example.com/one.png', '2'],
+                [null, 'Nobody', 5, null, null, '1'],
+                ['2', 'Two', 'many', 'not a color', 'ftp://example.com/two.png', '4'],
+                ['3', 'Three', 3, null, null, '1'],
+            ]
+        );
+        dataView.metadata.segment = {};
+        updateVisual(visual, dataView, { presentation: { initialCount: 2 }, dataLoading: { maxDataRows: 4 } });
+
+        const diagnostics = overlay('cluster-map-diagnostics');
+        expect(diagnostics.style.display).toBe('none');
+        updateVisual(visual, dataView, { general: { showDiagnostics: true } });
+        expect(diagnostics.style.display).toBe('block');
+        expect(diagnostics.innerText.split('\n')).toEqual([
+            'Rows skipped for a missing Cluster ID: 1 (e.g. Row 2)',
+            'Non-numeric counts treated as 0: 1 (e.g. Two)',
+            'Invalid Cluster Color values ignored: 1 (e.g. not a color)',
+            'Image URLs rejected (not http(s) gif/jpg/png/svg or base64 images): 1 (e.g. ftp://example.com/two.png)',
+            'Links to a Cluster ID not in the data dropped: 1 (e.g. 4)',
+            'Clusters beyond the Max Cluster Count hidden: 1 (e.g. Two)',
+            'Loading stopped at 4 rows by Max Data Rows, more rows are available',
+        ]);
+        expect(host.selectionManager.hostServices.loadMoreData).not.toHaveBeenCalled();
+    });
+
+    it('counts the missing and non-numeric counts as 0 and lists them in the diagnostics panel', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceBucket'],
+            [
+                ['1', 'One', null, 'a'],
+                ['1', 'One', 4, 'b'],
+                ['2', 'Two', undefined, 'a'],
+                ['3', 'Three', NaN, 'a'],
+                ['3', 'Three', '2', 'b'],
+            ]
+        );
+        updateVisual(visual, dataView, { general: { showDiagnostics: true } });
+
+        expect(topLevel().personas.map(p => [p.id, p.totalCount, p.properties.map(property => property.count)])).toEqual([
+            ['1', 4, [0, 4]],
+            ['3', 2, [0, 2]],
+            ['2', 0, [0]],
+        ]);
+        expect(overlay('cluster-map-diagnostics').innerText).toBe('Non-numeric counts treated as 0: 3 (e.g. One, Two, Three)');
+    });
+
+    it('drops the links below the threshold and keeps the strongest links per persona', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceLinkTo', 'ReferenceLinkWeight'],
+            [
+                ['1', 'One', 40, '2', 1],
+                ['1', 'One', 40, '3', 5],
+                ['1', 'One', 40, '4', 3],
+                ['2', 'Two', 30, '3', 2],
+                ['3', 'Three', 20, '4', 8],
+                ['4', 'Four', 10, '1', 0],
+            ]
+        );
+        const targets = (links: any) => {
+            updateVisual(visual, dataView, { links: links });
+            return topLevel().personas.map(p => p.links && p.links.map(link => link.target));
+        };
+
+        expect(targets({})).toEqual([['2', '3', '4'], ['3'], ['4'], ['1']]);
+        expect(view().layoutType).toBe('cola');
+        expect(targets({ maxLinks: 2 })).toEqual([['3', '4'], ['3'], ['4'], ['1']]);
+        expect(targets({ minWeight: 3 })).toEqual([['3', '4'], null, ['4'], null]);
+        expect(targets({ minWeight: 100 })).toEqual([null, null, null, null]);
+        expect(view().layoutType).toBe('cola');
+    });
+
+    it('averages the X and Y positions of each persona and the fixed layout falls back without them', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceBucket', 'PositionX', 'PositionY'],
+            [
+                ['1', 'One', 30, 'a', 10, 20],
+                ['1', 'One', 30, 'b', 30, 40],
+                ['2', 'Two', 20, 'a', 'n/a', 5],
+                ['3', 'Three', 10, 'a', -5, 0],
+            ]
+        );
+        updateVisual(visual, dataView, { presentation: { layout: 'fixed' } });
+        expect(topLevel().personas.map(p => p.position)).toEqual([{ x: 20, y: 30 }, null, { x: -5, y: 0 }]);
+        expect(view().layoutType).toBe('fixed');
+        expect(view().config.layout.layoutFixedPadding).toBe(10);
+
+        updateVisual(visual, createDataView(['PersonaGroup', 'ReferenceName', 'ReferenceCount'], [['1', 'One', 30]]), { presentation: { layout: 'fixed' } });
+        expect(view().layoutType).toBe('orbital');
+    });
+
+    it('saves the drill path, selection and zoom and restores them when the saved levels exist', async () => {
+        const dataView = () => createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ParentID'],
+            [
+                ['1', 'One', 10, null],
+                ['2', 'Two', 5, null],
+                ['3', 'Three', 4, '1'],
+                ['4', 'Four', 2, '1'],
+            ]
+        );
+        const zoom = { scale: 2, x: 10, y: 20 };
+        updateVisual(visual, dataView());
+        view().emit(PersonaEvents.PERSONA_SUB_LEVEL_CLICKED, view().getPersona('1'));
+        view().emit(PersonaEvents.PERSONA_CLICKED, view().getPersona('4'), null, null, {});
+        view().zoom = zoom;
+
+        parent.dispatchEvent(new MouseEvent('mouseup'));
+        await wait(SAVE_DELAY);
+        expect(host.persistProperties.calls.count()).toBe(1);
+        const state = host.persistProperties.calls.mostRecent().args[0].merge[0].properties;
+        expect(state).toEqual({ drillPath: '["1"]', selection: '["4"]', zoom: JSON.stringify(zoom), positions: '{}' });
+        parent.dispatchEvent(new MouseEvent('mouseup'));
+        await wait(SAVE_DELAY);
+        expect(host.persistProperties.calls.count()).toBe(1);
+
+        /* a bookmark restores the state in another instance of the visual */
+        const restored = createVisual();
+        updateVisual(restored.visual, dataView(), { state: state });
+        expect(view().loadData.calls.mostRecent().args[2]).toBe(false);
+        view().emit(LayoutEvents.LAYOUT_ANIMATION_CONTRACTION_END);
+        expect(view().layers.length).toBe(2);
+        expect(view().addDataLayer.calls.mostRecent().args[1].id).toBe('1');
+        view().emit(LayoutEvents.LAYOUT_ANIMATION_REPULSION_END);
+        expect(view().personas.map(wrapper => wrapper.object.selected)).toEqual([false, true]);
+        expect(view().zoom).toEqual(zoom);
+
+        updateVisual(restored.visual, dataView(), { state: { drillPath: '["5"]', selection: '', zoom: JSON.stringify(zoom), positions: '' } });
+        view().emit(LayoutEvents.LAYOUT_ANIMATION_CONTRACTION_END);
+        expect(view().layers.length).toBe(1);
+        expect(view().autoZoom).toHaveBeenCalled();
+
+        restored.visual.destroy();
+        document.body.removeChild(restored.parent);
+    });
+
+    it('saves the positions of the moved personas for each level and resets the layout of the current level', async () => {
+        const dataView = () => createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ParentID'],
+            [
+                ['1', 'One', 10, null],
+                ['2', 'Two', 5, null],
+                ['3', 'Three', 4, '1'],
+                ['4', 'Four', 2, '1'],
+            ]
+        );
+        const manualPositions = { '3': { x: 10, y: 20 } };
+        updateVisual(visual, dataView());
+        view().emit(PersonaEvents.PERSONA_SUB_LEVEL_CLICKED, view().getPersona('1'));
+        const resetLayoutButton = <HTMLElement>overlay('cluster-map-export-controls').querySelector('button:not([data-format])');
+        expect(resetLayoutButton.style.display).toBe('none');
+
+        view().manualPositions = manualPositions;
+        view().emit(LayoutEvents.LAYOUT_PERSONA_DROPPED);
+        expect(resetLayoutButton.style.display).toBe('');
+        await wait(SAVE_DELAY);
+        const state = host.persistProperties.calls.mostRecent().args[0].merge[0].properties;
+        expect(JSON.parse(state.positions)).toEqual({ '1': manualPositions });
+
+        const restored = createVisual();
+        const positions = { '1': { '3': { x: 10, y: 20 }, '4': { x: 'left' } }, '9': {} };
+        updateVisual(restored.visual, dataView(), { state: $.extend({}, state, { drillPath: '', positions: JSON.stringify(positions) }) });
+        expect(view().manualPositions).toEqual({});
+        view().emit(PersonaEvents.PERSONA_SUB_LEVEL_CLICKED, view().getPersona('1'));
+        expect(view().manualPositions).toEqual(manualPositions);
+        expect(view().config.layout.viewportPersonaDragging).toBe(true);
+
+        const restoredButton = <HTMLElement>restored.parent.querySelector('.cluster-map-export-controls button:not([data-format])');
+        restoredButton.click();
+        expect(view().resetLayout).toHaveBeenCalled();
+        expect(restoredButton.style.display).toBe('none');
+        restored.parent.dispatchEvent(new MouseEvent('mouseup'));
+        await wait(SAVE_DELAY);
+        const resetState = restored.host.persistProperties.calls.mostRecent().args[0].merge[0].properties;
+        expect(JSON.parse(resetState.positions)).toEqual({ '9': {} });
+
+        restored.visual.destroy();
+        document.body.removeChild(restored.parent);
+    });
+
+    it('animates data changes in place and keeps the drill level while its parent exists', () => {
+        const columns = ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ParentID'];
+        const rows = [
+            ['1', 'One', 10, null],
+            ['2', 'Two', 5, null],
+            ['3', 'Three', 4, '1'],
+            ['4', 'Four', 2, '1'],
+        ];
+
+        updateVisual(visual, createDataView(columns, rows));
+        expect(view().loadData).toHaveBeenCalled();
+        expect(view().updateDataLayers).not.toHaveBeenCalled();
+        view().emit(PersonaEvents.PERSONA_SUB_LEVEL_CLICKED, view().getPersona('1'));
+        host.selectionManager.clear.calls.reset();
+
+        updateVisual(visual, createDataView(columns, rows.concat([['5', 'Five', 3, '1']])));
+        let layersData = view().updateDataLayers.calls.mostRecent().args[0];
+        expect(layersData.length).toBe(2);
+        expect(ids(layersData[0])).toEqual(['1', '2']);
+        expect(ids(layersData[1])).toEqual(['3', '5', '4']);
+        expect(view().loadData.calls.count()).toBe(1);
+        expect(host.selectionManager.clear).not.toHaveBeenCalled();
+
+        view().emit(LayoutEvents.LAYOUT_BLANK_SPACE_CLICKED);
+        expect(host.selectionManager.select.calls.mostRecent().args[0]).toEqual([{ key: '0' }]);
+
+        updateVisual(visual, createDataView(columns, rows.filter(row => row[0] !== '1' && row[3] !== '1')));
+        layersData = view().updateDataLayers.calls.mostRecent().args[0];
+        expect(layersData.length).toBe(1);
+        expect(view().layers.length).toBe(1);
+        expect(host.selectionManager.clear).toHaveBeenCalled();
+    });
+
+    it('folds appended segments into the aggregated personas and only reloads the data when it changes', () => {
+        const columns = ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceBucket'];
+        const rows = [
+            ['1', 'One', 10, 'a'],
+            ['2', 'Two', 8, 'a'],
+            ['1', 'One', 4, 'b'],
+            ['3', 'Three', 2, 'b'],
+        ];
+        const summarize = level => level.personas.map(p => [p.id, p.totalCount, p.properties.map(property => property.count)]);
+        const loads = () => view().loadData.calls.count() + view().updateDataLayers.calls.count();
+        const reference = createVisual();
+        updateVisual(reference.visual, createDataView(columns, rows));
+        const expected = summarize(topLevel());
+        reference.visual.destroy();
+        document.body.removeChild(reference.parent);
+
+        const segment = createDataView(columns, rows.slice(0, 2));
+        segment.metadata.segment = {};
+        updateVisual(visual, segment);
+        expect(host.selectionManager.hostServices.loadMoreData).toHaveBeenCalled();
+        expect(view().loadData).not.toHaveBeenCalled();
+
+        updateVisual(visual, createDataView(columns, rows.slice(2)), {}, powerbi.VisualDataChangeOperationKind.Append);
+        expect(summarize(topLevel())).toEqual(expected);
+        expect(loads()).toBe(1);
+
+        updateVisual(visual, createDataView(columns, rows));
+        expect(loads()).toBe(1);
+
+        /* the labels and the legend are applied to the displayed data, the sorting rebuilds it */
+        updateVisual(visual, createDataView(columns, rows), { presentation: { showNameLabels: false }, legend: { position: 'bottom-left' } });
+        expect(loads()).toBe(1);
+        expect(view().personas.map(wrapper => wrapper.object.label.showName)).toEqual([false, false, false]);
+        updateVisual(visual, createDataView(columns, rows), { presentation: { sortOrder: 'ascending' } });
+        expect(loads()).toBe(2);
+
+        updateVisual(visual, createDataView(columns, rows.slice(1)));
+        expect(loads()).toBe(3);
+        expect(summarize(topLevel()).length).toBe(3);
+    });
+
+    it('merges appended segments with more rows than a call takes arguments', () => {
+        const columns = ['PersonaGroup', 'ReferenceName', 'ReferenceCount'];
+        visual.dataView = createDataView(columns, [['1', 'One', 1]]);
+        const merged = visual._mergeDataView(createDataView(columns, _.range(500000).map(i => [String(i % 3), 'Appended', 1])));
+        expect(merged.table.rows.length).toBe(500001);
+        expect(merged.table.identity.length).toBe(500001);
+        expect(merged.table.rows[500000]).toEqual(['1', 'Appended', 1]);
+    });
+
+    describe('web worker', () => {
+        const columns = ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceBackgroundColor'];
+        const rows = _.range(2500).map(i => [String(i % 3), `Cluster ${i}`, 1, i % 2 ? 'red' : 'not a color']);
+        const summarize = level => level.personas.map(p => [p.id, p.label, p.totalCount, p.backgroundColor || null]);
+        const workers = FakeWorker.instances;
+        const createObjectURL = URL.createObjectURL;
+        const revokeObjectURL = URL.revokeObjectURL;
+
+        beforeEach(() => {
+            workers.length = 0;
+            global['Worker'] = FakeWorker;
+            (URL as any).createObjectURL = blob => 'blob:fold';
+            (URL as any).revokeObjectURL = jasmine.createSpy('revokeObjectURL');
+        });
+
+        afterEach(() => {
+            visual.destroy();
+            (URL as any).createObjectURL = createObjectURL;
+            (URL as any).revokeObjectURL = revokeObjectURL;
+            delete global['Worker'];
+        });
+
+        it('folds large data views in a web worker with a progress indicator and cancels the fold on a newer update', () => {
+            const progress = overlay('cluster-map-progress');
+            updateVisual(visual, createDataView(columns, rows.slice(1).concat([rows[0]])));
+            expect(workers.length).toBe(1);
+            expect(progress.style.display).toBe('block');
+            expect(progress.innerText).toBe('Processing data: 0%');
+            workers[0].run();
+            workers[0].reply(1);
+            expect(progress.innerText).toBe('Processing data: 40%');
+
+            updateVisual(visual, createDataView(columns, rows));
+            expect(workers[0].terminate).toHaveBeenCalled();
+            expect(workers.length).toBe(2);
+            /* the replies of the outdated fold posted before the worker was stopped are ignored */
+            workers[0].reply();
+            expect(view().loadData).not.toHaveBeenCalled();
+            expect(progress.innerText).toBe('Processing data: 0%');
+
+            workers[1].run();
+            workers[1].reply();
+            expect(progress.style.display).toBe('none');
+            expect(summarize(topLevel())).toEqual([
+                ['0', 'Cluster 0', 834, '#ff0000'],
+                ['1', 'Cluster 1', 833, '#ff0000'],
+                ['2', 'Cluster 2', 833, '#ff0000'],
+            ]);
+
+            visual.destroy();
+            expect(workers[1].terminate).toHaveBeenCalled();
+            expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:fold');
+        });
+
+        it('folds the rows in the worker like on the UI thread', () => {
+            const dataView = () => {
+                const foldedRows = rows.map((row, i) => [row[0], row[1], i % 5 ? 1 : 'n/a', row[3], i % 4 ? 'a' : 'b', `ftp://example.com/${i % 7}.png`]);
+                const result = createDataView(columns.concat(['ReferenceBucket', 'ReferenceImageUrl']), foldedRows);
+                result.categorical.values = [{ highlights: foldedRows.map((row, i) => i % 10 ? null : 1) }];
+                return result;
+            };
+            const summarizeFold = (target: any) => ({
+                personas: topLevel().personas,
+                highlight: lastHighlight(),
+                diagnostics: target.parent.querySelector('.cluster-map-diagnostics').innerText,
+            });
+
+            /* the same rows folded on the UI thread by a visual without worker */
+            const reference = createVisual();
+            delete global['Worker'];
+            updateVisual(reference.visual, dataView(), { general: { showDiagnostics: true } });
+            global['Worker'] = FakeWorker;
+            const expected = summarizeFold(reference);
+            reference.visual.destroy();
+            document.body.removeChild(reference.parent);
+            expect(workers.length).toBe(0);
+
+            updateVisual(visual, dataView(), { general: { showDiagnostics: true } });
+            workers[0].run();
+            workers[0].reply();
+            expect(summarizeFold({ parent: parent })).toEqual(expected);
+            expect(expected.diagnostics.split('\n').length).toBe(3);
+        });
+
+        it('sets the layout type once the worker has folded the links of the first data view', () => {
+            const linkColumns = ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceLinkTo'];
+            const linkRows = rows.map((row, i) => [row[0], row[1], 1, String((i + 1) % 3)]);
+
+            updateVisual(visual, createDataView(linkColumns, linkRows));
+            expect(view().layoutType).toBe('orbital');
+
+            workers[0].run();
+            workers[0].reply();
+            expect(view().layoutType).toBe('cola');
+            expect(view().loadData).toHaveBeenCalled();
+        });
+
+        it('folds the rows on the UI thread once the worker failed', () => {
+            updateVisual(visual, createDataView(columns, rows));
+            workers[0].onerror({ preventDefault: () => {} });
+            expect(workers[0].terminate).toHaveBeenCalled();
+            expect(summarize(topLevel()).map(persona => persona[2])).toEqual([834, 833, 833]);
+
+            /* the following updates don't start another worker */
+            updateVisual(visual, createDataView(columns, rows.slice(0, 2400)));
+            expect(workers.length).toBe(1);
+            expect(summarize(topLevel()).map(persona => persona[2])).toEqual([800, 800, 800]);
+        });
+
+        it('keeps the aggregation in the worker and only posts the appended rows and the changed personas', () => {
+            const first = createDataView(columns, rows);
+            first.metadata.segment = {};
+            updateVisual(visual, first);
+            expect(workers[0].requests[0].aggregation.countedEntries).toBeDefined();
+            workers[0].run();
+            workers[0].reply();
+            expect(host.selectionManager.hostServices.loadMoreData).toHaveBeenCalled();
+
+            /* a small appended segment is folded by the worker that kept the aggregation */
+            const appended = _.range(10).map(i => ['1', `Appended ${i}`, 1, 'red']);
+            updateVisual(visual, createDataView(columns, appended), {}, powerbi.VisualDataChangeOperationKind.Append);
+            expect(workers.length).toBe(1);
+            expect(workers[0].requests[0].aggregation).toBeNull();
+            expect(workers[0].requests[0].rows.length).toBe(10);
+            workers[0].run();
+            expect(Object.keys(workers[0].replies[workers[0].replies.length - 1].personas)).toEqual(['1']);
+            workers[0].reply();
+
+            expect(summarize(topLevel())).toEqual([
+                ['1', 'Cluster 1', 843, '#ff0000'],
+                ['0', 'Cluster 0', 834, '#ff0000'],
+                ['2', 'Cluster 2', 833, '#ff0000'],
+            ]);
+        });
+
+        it('folds the merged rows again when an appended segment is cancelled by the next one', () => {
+            const first = createDataView(columns, rows);
+            first.metadata.segment = {};
+            updateVisual(visual, first);
+            workers[0].run();
+            workers[0].reply();
+
+            const second = createDataView(columns, _.range(10).map(i => ['1', `Second ${i}`, 1, 'red']));
+            second.metadata.segment = {};
+            updateVisual(visual, second, {}, powerbi.VisualDataChangeOperationKind.Append);
+            expect(workers[0].requests.length).toBe(1);
+
+            /* the fold of the second segment is cancelled, its rows are folded again with all the rows merged so far */
+            const third = createDataView(columns, _.range(5).map(i => ['2', `Third ${i}`, 1, 'red']));
+            updateVisual(visual, third, {}, powerbi.VisualDataChangeOperationKind.Append);
+            expect(workers[0].terminate).toHaveBeenCalled();
+            expect(workers.length).toBe(2);
+            expect(workers[1].requests[0].rows.length).toBe(2515);
+            workers[1].run();
+            workers[1].reply();
+
+            expect(view().loadData).toHaveBeenCalled();
+            expect(summarize(topLevel())).toEqual([
+                ['1', 'Cluster 1', 843, '#ff0000'],
+                ['2', 'Cluster 2', 838, '#ff0000'],
+                ['0', 'Cluster 0', 834, '#ff0000'],
+            ]);
+        });
+    });
+
+    it('searches the personas of all levels and drills down to the picked result', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ParentID'],
+            [
+                ['1', 'North', 10, null],
+                ['2', 'South', 8, null],
+                ['3', 'North East', 4, '1'],
+                ['4', 'Far North', 2, '3'],
+            ]
+        );
+        updateVisual(visual, dataView, { search: { show: true } });
+
+        const search = overlay('cluster-map-search');
+        const input = search.querySelector('input');
+        const results = () => Array.prototype.slice.call(search.firstChild.childNodes);
+        expect(search.style.display).toBe('block');
+        input.value = ' NORTH';
+        input.dispatchEvent(new Event('input'));
+        expect(results().map(result => result.title)).toEqual(['North', 'North / North East', 'North / North East / Far North']);
+
+        const north = view().getPersona('1');
+        results()[2].click();
+        expect(results().length).toBe(0);
+        expect(view().addDataLayer.calls.mostRecent().args.slice(1)).toEqual([north, false]);
+        view().emit(LayoutEvents.LAYOUT_ANIMATION_CONTRACTION_END);
+        view().emit(LayoutEvents.LAYOUT_ANIMATION_CONTRACTION_END);
+        expect(view().layers.map(level => level.parentId)).toEqual([null, '1', '3']);
+        expect(view().getPersona('4').selected).toBe(true);
+        expect(view().autoZoom).toHaveBeenCalledWith(view().getPersona('4'));
+    });
+
+    it('mirrors the personas for screen readers and navigates them with the keyboard', () => {
+        const dataView = createDataView(
+            ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceBucket', 'ParentID'],
+            [
+                ['1', 'One', 3, 'a', null],
+                ['1', 'One', 1, 'b', null],
+                ['2', 'Two', 2, 'a', null],
+                ['3', 'Three', 1, 'a', '2'],
+            ]
+        );
+        updateVisual(visual, dataView);
+
+        const list = parent.querySelector('[role="listbox"]');
+        const items = () => Array.prototype.slice.call(list.childNodes);
+        const press = key => document.activeElement.dispatchEvent(new KeyboardEvent('keydown', { key: key, bubbles: true }));
+        expect(items().map(item => item.getAttribute('aria-label'))).toEqual([
+            'One, Count: 4, a: 3 (0.75), b: 1 (0.25)',
+            'Two, Count: 2, a: 2 (1), Child Clusters: 1',
+        ]);
+
+        items()[0].focus();
+        expect(view().getPersona('1').outlined).toBe(true);
+        press('ArrowRight');
+        expect(document.activeElement.getAttribute('data-id')).toBe('2');
+        expect(view().personas.map(wrapper => wrapper.object.outlined)).toEqual([false, true]);
+
+        press('Enter');
+        expect(view().getPersona('2').selected).toBe(true);
+        expect(items()[1].getAttribute('aria-selected')).toBe('true');
+        expect(document.activeElement.getAttribute('data-id')).toBe('2');
+
+        press('+');
+        expect(view().zoomIn).toHaveBeenCalled();
+
+        press('PageDown');
+        expect(view().layers.length).toBe(2);
+        expect(view().addDataLayer.calls.mostRecent().args[1].id).toBe('2');
+        expect(items().map(item => item.getAttribute('data-id'))).toEqual(['3']);
+        expect(document.activeElement).toBe(items()[0]);
+
+        press('Backspace');
+        expect(view().layers.length).toBe(1);
+        expect(items().map(item => item.getAttribute('data-id'))).toEqual(['1', '2']);
+    });
+
+    describe('exports', () => {
+        let downloads;
+
+        beforeEach(() => {
+            downloads = [];
+            spyOn(HTMLAnchorElement.prototype, 'click').and.callFake(function () {
+                downloads.push([this.getAttribute('href'), this.download]);
+            });
+        });
+
+        it('exports the view as PNG or SVG with the legend drawn over it', () => {
+            const dataView = createDataView(
+                ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceBucket'],
+                [
+                    ['1', 'One', 3, 'a'],
+                    ['2', 'Two', 2, 'b'],
+                ]
+            );
+            updateVisual(visual, dataView);
+
+            const controls = overlay('cluster-map-export-controls');
+            const button = format => <HTMLElement>controls.querySelector(`[data-format="${format}"]`);
+            const visibleButtons = () => Array.prototype.filter.call(controls.childNodes, node => node.style.display !== 'none');
+            expect(controls.style.display).toBe('none');
+            updateVisual(visual, dataView, { imageExport: { show: true } });
+            expect(controls.style.display).toBe('block');
+            expect(visibleButtons().map(node => node.textContent)).toEqual(['PNG', 'SVG']);
+
+            button('png').click();
+            expect(view().exportImage.calls.mostRecent().args.slice(0, 2)).toEqual([2, true]);
+            expect(downloads.pop()).toEqual(['data:image/png;base64,AA==', 'cluster-map.png']);
+
+            button('svg').click();
+            expect(downloads.pop()).toEqual(['data:image/svg+xml;charset=utf-8,%3Csvg%2F%3E', 'cluster-map.svg']);
+
+            const texts = [];
+            const context = {
+                save: () => {},
+                restore: () => {},
+                measureText: text => ({ width: text.length * 6 }),
+                fillRect: () => {},
+                fillText: (text, x, y) => texts.push([text, x, y]),
+            };
+            view().exportSVG.calls.mostRecent().args[0](context, 400, 300);
+            expect(texts).toEqual([['a', 388, 14], ['b', 388, 30]]);
+
+            updateVisual(visual, dataView, { imageExport: { show: true, includeLegend: false } });
+            button('svg').click();
+            expect(view().exportSVG.calls.mostRecent().args[0]).toBe(null);
+        });
+
+        it('exports the cluster graph of the current level or the whole hierarchy as JSON, CSV or GraphML', () => {
+            const dataView = createDataView(
+                ['PersonaGroup', 'ReferenceName', 'ReferenceCount', 'ReferenceBucket', 'ParentID', 'ReferenceLinkTo', 'ReferenceLinkWeight'],
+                [
+                    ['1', 'One', 3, 'a', null, '2', 5],
+                    ['1', 'One', 1, 'b', null, '2', 5],
+                    ['2', 'Two, "2"', 2, 'a', null, '3', 1],
+                    ['3', 'Three', 1, 'a', '2', '2', 2],
+                ]
+            );
+            const button = format => <HTMLElement>overlay('cluster-map-export-controls').querySelector(`[data-format="${format}"]`);
+            const download = (format: string, scope: string) => {
+                updateVisual(visual, dataView, { graphExport: { show: true, scope: scope } });
+                button(format).click();
+                const file = downloads.pop();
+                expect(file[1]).toBe(`cluster-map.${format}`);
+                return decodeURIComponent(file[0].split(',').slice(1).join(','));
+            };
+
+            const level = JSON.parse(download('json', 'level'));
+            expect(level.version).toBe(1);
+            expect(level.scope).toBe('level');
+            expect(level.buckets).toEqual(['a', 'b']);
+            expect(level.nodes).toEqual([
+                { id: '1', label: 'One', count: 4, parent: null, level: 0, hidden: false, buckets: { a: 3, b: 1 } },
+                { id: '2', label: 'Two, "2"', count: 2, parent: null, level: 0, hidden: false, buckets: { a: 2 } },
+            ]);
+            expect(level.edges).toEqual([{ source: '1', target: '2', weight: 5 }]);
+
+            const hierarchy = JSON.parse(download('json', 'hierarchy'));
+            expect(hierarchy.nodes.map(node => [node.id, node.parent, node.level])).toEqual([['1', null, 0], ['2', null, 0], ['3', '2', 1]]);
+            expect(hierarchy.edges.map(edge => [edge.source, edge.target])).toEqual([['1', '2'], ['2', '3'], ['3', '2']]);
+
+            expect(download('csv', 'hierarchy').split('\r\n')).toEqual([
+                'type,id,label,count,parent,level,hidden,a,b,source,target,weight',
+                'node,1,One,4,,0,false,3,1,,,',
+                'node,2,"Two, ""2""",2,,0,false,2,,,,',
+                'node,3,Three,1,2,1,false,1,,,,',
+                'edge,,,,,,,,,1,2,5',
+                'edge,,,,,,,,,2,3,1',
+                'edge,,,,,,,,,3,2,2',
+            ]);
+            expect(downloads.length).toBe(0);
+
+            const graphml = download('graphml', 'level');
+            expect(graphml).toContain('<key id="bucket1" for="node" attr.name="b" attr.type="double"/>');
+            expect(graphml).toContain('<node id="2"><data key="label">Two, &quot;2&quot;</data><data key="count">2</data><data key="level">0</data>' +
+                '<data key="hidden">false</data><data key="bucket0">2</data></node>');
+            expect(graphml).toContain('<edge source="1" target="2"><data key="weight">5</data></edge>');
+        });
+    });
+
     it('destroy', () => {
+        updateVisual(visual, createDataView(['PersonaGroup', 'ReferenceName', 'ReferenceCount'], [['1', 'One', 1]]));
+        visual.destroy();
+        expect(view().release).toHaveBeenCalled();
+    });
+
+    it('destroy leaves the parent node of the element as it found it', () => {
+        const element = parent.firstChild;
+        expect(parent.childNodes.length).toBeGreaterThan(1);
         visual.destroy();
+        expect(Array.prototype.slice.call(parent.childNodes)).toEqual([element]);
+
+        visual.saveStateLater = Object.assign(jasmine.createSpy('saveStateLater'), { cancel: () => {} });
+        ['mouseup', 'touchend', 'wheel', 'keyup'].forEach(eventName => parent.dispatchEvent(new Event(eventName)));
+        expect(visual.saveStateLater).not.toHaveBeenCalled();
     });
 });
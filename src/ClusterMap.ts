@@ -32,24 +32,39 @@ import ISelectionId = powerbi.extensibility.ISelectionId;
 import ISelectionIdBuilder = powerbi.extensibility.ISelectionIdBuilder;
 import IVisualHost = powerbi.extensibility.v110.IVisualHost;
 import IVisualHostServices = powerbi.IVisualHostServices;
+import IVisualHostTooltipService = powerbi.IVisualHostTooltipService;
+import VisualTooltipDataItem = powerbi.VisualTooltipDataItem;
 import DataView = powerbi.DataView;
 import VisualObjectInstance = powerbi.VisualObjectInstance;
 import EnumerateVisualObjectInstancesOptions = powerbi.EnumerateVisualObjectInstancesOptions;
 import SQExprBuilder = powerbi.data.SQExprBuilder;
 import InputManager from '../lib/@uncharted/personas/src/revi/plugins/input/InputManager.js';
+import { color as d3Color } from 'd3';
 
 import { Personas, PersonaEvents, BreadcrumbEvents, LayoutEvents } from '../lib/@uncharted/personas/src/Personas.js';
+import LayoutConfig from '../lib/@uncharted/personas/src/config/Layout.js';
 
-// copied from powerbi.extensibility.utils.dataview
-// https://github.com/Microsoft/powerbi-visuals-utils-dataviewutils/blob/45e4408444f9792f94c4a49d0643639d95ece6ba/src/validationHelper.ts#L29
-export function isImageUrlAllowed(url: string): boolean {
-    // Excludes all URLs that don't contain .gif .jpg .png or .svg extensions and don't start from "http(s)://".
-    // Base64 incoded images are allowable too.
-    return (/^https?:\/\/.+\.(gif|jpg|png|svg)$/i).test(url) || (/^data:image\/(gif|jpeg|png|svg\+xml);base64,/i).test(url);
-}
+import { isImageUrlAllowed, aggregateValue, addDiagnostic, foldRows } from './fold';
+
+export { isImageUrlAllowed };
+
+/**
+ * Source of the Web Worker folding rows off the UI thread, bundled by webpack from its own entry.
+ *
+ * @type {string}
+ */
+const FOLD_WORKER_SOURCE: string = require('./fold.worker');
 
 export default class ClusterMap implements IVisual {
 
+    /**
+     * Layout types that can only be used when the data contains links between personas.
+     *
+     * @type {Array<string>}
+     * @private
+     */
+    private static LINKED_LAYOUTS: Array<string> = ['cola'];
+
     /**
      * Default number of personas to load when paginating.
      *
@@ -74,6 +89,182 @@ export default class ClusterMap implements IVisual {
      */
     private static MAX_IMAGES_DEFAULT: number = 4;
 
+    /**
+     * Label displayed on the "Other" personas.
+     *
+     * @type {string}
+     * @private
+     */
+    private static OTHER_PERSONA_LABEL: string = 'Other';
+
+    /**
+     * Label displayed on the personas of empty hierarchy values.
+     *
+     * @type {string}
+     * @private
+     */
+    private static BLANK_LABEL: string = '(Blank)';
+
+    /**
+     * The label of the tooltip item displaying the total count of a cluster, used when the column has no name.
+     *
+     * @type {string}
+     * @private
+     */
+    private static TOOLTIP_COUNT_LABEL: string = 'Count';
+
+    /**
+     * The label of the tooltip item displaying the number of child clusters of a cluster.
+     *
+     * @type {string}
+     * @private
+     */
+    private static TOOLTIP_CHILD_COUNT_LABEL: string = 'Child Clusters';
+
+    /**
+     * The label of the tooltip item displaying the number of links of a cluster.
+     *
+     * @type {string}
+     * @private
+     */
+    private static TOOLTIP_LINK_COUNT_LABEL: string = 'Links';
+
+    /**
+     * The maximum number of search results displayed.
+     *
+     * @type {number}
+     * @private
+     */
+    private static SEARCH_MAX_RESULTS: number = 10;
+
+    /**
+     * Events ending the drilling, selecting, panning and zooming of the personas, the view state is saved after them.
+     *
+     * @type {Array<string>}
+     * @private
+     */
+    private static SAVE_STATE_EVENTS: Array<string> = ['mouseup', 'touchend', 'wheel', 'keyup'];
+
+    /**
+     * The keyboard instructions announced by screen readers when the personas get the focus.
+     *
+     * @type {string}
+     * @private
+     */
+    private static KEYBOARD_HELP: string = 'Use the arrow keys to move between clusters, Enter to select a cluster, ' +
+        'Page Down to open its sub-clusters, Backspace to go back up a level, and plus or minus to zoom.';
+
+    /**
+     * Time, in milliseconds, to wait after the user stops interacting with the visual before persisting its view state.
+     *
+     * @type {number}
+     * @private
+     */
+    private static SAVE_STATE_DELAY: number = 1000;
+
+    /**
+     * The maximum scale, relative to the size of the visual, of the exported PNG images.
+     *
+     * @type {number}
+     * @private
+     */
+    private static MAX_EXPORT_SCALE: number = 4;
+
+    /**
+     * The version of the JSON graph schema, documented in the README, produced by the graph export.
+     *
+     * @type {number}
+     * @private
+     */
+    private static GRAPH_SCHEMA_VERSION: number = 1;
+
+    /**
+     * The XML namespace of GraphML documents. It's an identifier, not a URL that is ever requested.
+     *
+     * @type {string}
+     * @private
+     */
+    private static GRAPHML_NAMESPACE: string = 'http://graphml.graphdrawing.org/xmlns';
+
+    /**
+     * The labels of the export buttons, keyed by format. PNG and SVG export the view, the other formats the graph.
+     *
+     * @type {any}
+     * @private
+     */
+    private static EXPORT_FORMATS: any = {
+        png: 'PNG',
+        svg: 'SVG',
+        json: 'JSON',
+        csv: 'CSV',
+        graphml: 'GraphML',
+    };
+
+    /**
+     * Descriptions of the categories of data dropped or coerced by `convert`, as listed in the diagnostics panel.
+     *
+     * @type {any}
+     * @private
+     */
+    private static DIAGNOSTIC_LABELS: any = {
+        skippedRows: 'Rows skipped for a missing Cluster ID',
+        invalidCounts: 'Non-numeric counts treated as 0',
+        invalidColors: 'Invalid Cluster Color values ignored',
+        rejectedImages: 'Image URLs rejected (not http(s) gif/jpg/png/svg or base64 images)',
+        danglingLinks: 'Links to a Cluster ID not in the data dropped',
+        hiddenPersonas: 'Clusters beyond the Max Cluster Count hidden',
+    };
+
+    /**
+     * Maximum number of sample values listed in the diagnostics panel for each category.
+     *
+     * @type {number}
+     * @private
+     */
+    private static DIAGNOSTIC_SAMPLES: number = 3;
+
+    /**
+     * Initial value of the hash of the aggregated rows, the FNV-1a offset basis.
+     *
+     * @type {number}
+     * @private
+     */
+    private static HASH_SEED: number = 0x811c9dc5;
+
+    /**
+     * Minimum number of rows of a data view, or segment of data, folded in a Web Worker instead of the UI thread.
+     *
+     * @type {number}
+     * @private
+     */
+    private static WORKER_ROWS: number = 1000;
+
+    /**
+     * Keys of the aggregation posted to the Web Worker with the first rows folded into it, the other keys hold formatters
+     * and selection IDs that can't be cloned into the worker.
+     *
+     * @type {Array<string>}
+     * @private
+     */
+    private static WORKER_AGGREGATION_KEYS: Array<string> = [
+        'columnIndices', 'hierarchyLevels', 'hasBuckets', 'maxImages', 'maxSamples', 'personaMap', 'countedEntries',
+        'leafIds', 'buckets', 'bucketRows', 'hasPositions', 'highlightedCounts', 'diagnostics', 'rowCount', 'hash',
+    ];
+
+    /**
+     * Paths of the settings used to aggregate the rows, build the data and lay it out. The data is only reloaded when
+     * one of them changes, the other settings are applied to the displayed data.
+     *
+     * @type {Array<string>}
+     * @private
+     */
+    private static DATA_SETTINGS: Array<string> = [
+        'presentation.layout', 'presentation.layoutPadding', 'presentation.layoutRepulsion', 'presentation.movableClusters',
+        'presentation.initialCount', 'presentation.imageCount', 'presentation.showOther', 'presentation.sortBy',
+        'presentation.sortOrder', 'presentation.sizeScale', 'presentation.normalColor', 'presentation.selectedColor',
+        'bucketColors', 'links', 'hierarchy.rollUpCounts', 'hierarchy.collapseSingleRoot',
+    ];
+
     /**
      * Default color for the persona gauge bars.
      *
@@ -99,19 +290,72 @@ export default class ClusterMap implements IVisual {
     private static DEFAULT_SETTINGS: any = {
         presentation: {
             layout: 'cola',
+            layoutPadding: 0,
+            layoutRepulsion: 30,
             // imageBlur: false,
             initialCount: ClusterMap.MAX_PERSONAS_DEFAULT,
             imageCount: ClusterMap.MAX_IMAGES_DEFAULT,
+            showOther: false,
+            sortBy: 'count',
+            sortOrder: 'auto',
+            sizeScale: 'linear',
             loadMoreCount: ClusterMap.LOAD_MORE_PERSONAS_STEP,
             normalColor: { solid: { color: ClusterMap.GAUGE_DEFAULT_COLOR } },
             selectedColor: { solid: { color: ClusterMap.SELECTED_GAUGE_DEFAULT_COLOR } },
             showNameLabels: true,
+            movableClusters: true,
+        },
+        legend: {
+            show: true,
+            position: 'top-right',
+        },
+        search: {
+            show: false,
+        },
+        imageExport: {
+            show: false,
+            scale: 2,
+            includeBreadcrumbs: true,
+            includeLegend: true,
+        },
+        graphExport: {
+            show: false,
+            scope: 'level',
+        },
+        links: {
+            show: true,
+            minWeight: null,
+            maxLinks: 0,
+            lowColor: { solid: { color: '#c6c9d3' } },
+            highColor: { solid: { color: ClusterMap.GAUGE_DEFAULT_COLOR } },
+            minWidth: 1,
+            maxWidth: 6,
+            scaleOpacity: true,
+            showLabels: true,
+            showArrows: false,
+            mergePairs: true,
+        },
+        hierarchy: {
+            rollUpCounts: false,
+            collapseSingleRoot: true,
+            showIssues: false,
+        },
+        bucketColors: {
+            usePalette: false,
+            $instances: {},
         },
         dataLoading: {
             maxDataRows: 20000
         },
+        state: {
+            drillPath: '',
+            selection: '',
+            zoom: '',
+            positions: '',
+        },
         general: {
             displayBuildVersion: false,
+            showDiagnostics: false,
         },
     };
 
@@ -126,6 +370,7 @@ export default class ClusterMap implements IVisual {
     private data: any = null;
     private dataLayerStack: Array<any> = [];
     private buckets: Array<string> = [];
+    private bucketSelectionIds: any = {};
 
     private isSandboxed: Boolean;
 
@@ -153,6 +398,14 @@ export default class ClusterMap implements IVisual {
      */
     private hasLinks: boolean;
 
+    /**
+     * Whether the data positions at least one persona through the X and Y Position roles.
+     *
+     * @type {boolean}
+     * @private
+     */
+    private hasPositions: boolean;
+
     /**
      * The data view as received by this visual in the `update` function.
      *
@@ -170,111 +423,567 @@ export default class ClusterMap implements IVisual {
     private hasMoreData: boolean = false;
 
     /**
-     * A JSON serialized version of the data used by the Personas component.
+     * A key identifying the rows and settings the data used by the Personas component was converted from, null if
+     * there is no data.
+     *
+     * @type {string}
+     * @private
+     */
+    private dataKey: string = null;
+
+    /**
+     * The personas aggregated from the rows of the data view, new segments of data are folded into it. Its rows may
+     * still be folding in the Web Worker.
      *
      * @type {any}
      * @private
      */
-    private serializedData: any = null;
+    private aggregation: any = null;
 
     /**
-     * Whether this visual has buckets to split the data.
+     * Web Worker folding the rows of large data views off the UI thread, null until first used.
+     *
+     * @type {Worker}
+     * @private
+     */
+    private worker: Worker = null;
+
+    /**
+     * Blob URL of the source of the Web Worker, null until the first worker is created.
+     *
+     * @type {string}
+     * @private
+     */
+    private workerUrl: string = null;
+
+    /**
+     * Whether the Web Worker failed to start or to run, the rows of the following updates are then folded on the UI thread.
      *
      * @type {boolean}
      * @private
      */
-    private hasBuckets: boolean;
+    private workerUnavailable: boolean = false;
 
     /**
-     * Sub-selection data, if any; otherwise, null.
+     * ID of the last request posted to the Web Worker.
+     *
+     * @type {number}
+     * @private
+     */
+    private workerRequest: number = 0;
+
+    /**
+     * The aggregation kept by the Web Worker, null if none. The counted entries of the aggregation are only kept by the
+     * worker, the rows of the segments appended to it are folded in the worker whatever their number.
      *
      * @type {any}
      * @private
      */
-    private subSelectionData: any = null;
+    private workerAggregation: any = null;
 
     /**
-     * Last selection data sent to PowerBI
+     * ID of the request being folded by the Web Worker, null if no fold is running.
+     *
+     * @type {number}
+     * @private
+     */
+    private pendingFold: number = null;
+
+    /**
+     * Element displaying the progress of the fold running in the Web Worker over the canvas.
      *
      * @type {any}
      * @private
      */
-    private lastSelectionArgs: any = null;
+    private progressInfo: any;
 
     /**
-     * Flag used to ignore the next call to the `update` function, triggered when performing sub-selection.
+     * Whether this visual has buckets to split the data.
      *
      * @type {boolean}
      * @private
      */
-    private ignoreSelectionNextUpdate: boolean = false;
+    private hasBuckets: boolean;
 
     /**
-     * Element that will hold the build information of this visual.
+     * Sub-selection data, if any; otherwise, null.
      *
      * @type {any}
      * @private
      */
-    private buildInfo: any;
+    private subSelectionData: any = null;
 
     /**
-     * @constructor
-     * @param {VisualConstructorOptions} options - The PowerBI options for this visual's initialization.
+     * The highlighted counts received from PowerBI per persona ID and bucket, if any; otherwise, null.
+     *
+     * @type {any}
+     * @private
      */
-    constructor(options: VisualConstructorOptions) {
-        this.element = options.element;
+    private highlightedCounts: any = null;
 
-        /* example to get the host (services) and selection manager using the new API */
-        this.host = options.host;
-        this.selectionManager = options.host.createSelectionManager();
-        this.hostServices = (this.selectionManager as any).hostServices; // `hostServices` is now what we used to call `host`
-        this.isSandboxed = this.hostServices['messageProxy'];
+    /**
+     * The formatter used for the counts of the personas, if any.
+     *
+     * @type {any}
+     * @private
+     */
+    private countFormatter: any = null;
 
-        $(this.element).on('mousedown pointerdown', (e) => e.stopPropagation());
+    /**
+     * The display name of the column bound to the Count data role.
+     *
+     * @type {string}
+     * @private
+     */
+    private countDisplayName: string = null;
 
-        this.buildInfo = document.createElement('div');
-        this.buildInfo.innerText = (this as any).__essex_build_info__;
+    /**
+     * The display names and formatters of the columns bound to the Tooltips data role.
+     *
+     * @type {Array<any>}
+     * @private
+     */
+    private tooltipColumns: Array<any> = [];
 
-        this.buildInfo.style.position = 'absolute';
-        this.buildInfo.style.bottom = 0;
-        this.buildInfo.style.left = 0;
-        this.buildInfo.style.color = '#888888';
-        this.buildInfo.style.fontSize = '10px';
-        this.buildInfo.style.visibility = 'hidden';
+    /**
+     * The display name and formatter of the column bound to the Size By data role, null if none is bound.
+     *
+     * @type {any}
+     * @private
+     */
+    private sizeColumn: any = null;
 
-        this.element.parentNode.appendChild(this.buildInfo);
+    /**
+     * The tooltip service provided by the host, if any.
+     *
+     * @type {IVisualHostTooltipService}
+     * @private
+     */
+    private tooltipService: IVisualHostTooltipService;
 
-        this.selectionManager['registerOnSelectCallback'](
-            (ids: ISelectionId[]) => {
-                this.lastSelectionArgs = null;
-                if (ids.length) {
-                    this.lastSelectionArgs = ids;
-                    this.loadSelectionFromPowerBI();
-                }
-            });
-    }
+    /**
+     * The selection IDs of the persona whose tooltip is being displayed, null if no tooltip is displayed.
+     *
+     * @type {ISelectionId[]}
+     * @private
+     */
+    private tooltipIdentities: ISelectionId[] = null;
 
     /**
-     * ClusterMap's visualization destroy method. Called by PowerBI.
+     * The coordinates of the mouse relative to this visual's element, used to position the tooltips.
      *
-     * @method destroy
+     * @type {number[]}
+     * @private
      */
-    public destroy(): void {
-        if (this.personas) {
-            this.personas.release();
-        }
-    }
+    private tooltipCoordinates: number[] = [0, 0];
 
     /**
-     * Update function called by PowerBI when the visual or its data need to be updated.
+     * Last selection data sent to PowerBI
      *
-     * @method update
-     * @param {VisualUpdateOptions} options - Update options object as provided by PowerBI.
+     * @type {any}
+     * @private
      */
-    public update(options: VisualUpdateOptions) {
-        const viewport: any = options.viewport;
-        if (this.personas) {
-            if (options.type & powerbi.VisualUpdateType.Resize) {
+    private lastSelectionArgs: any = null;
+
+    /**
+     * Flag used to ignore the next call to the `update` function, triggered when performing sub-selection.
+     *
+     * @type {boolean}
+     * @private
+     */
+    private ignoreSelectionNextUpdate: boolean = false;
+
+    /**
+     * Element that will hold the build information of this visual.
+     *
+     * @type {any}
+     * @private
+     */
+    private buildInfo: any;
+
+    /**
+     * Element that will hold the legend of the buckets.
+     *
+     * @type {any}
+     * @private
+     */
+    private legend: any;
+
+    /**
+     * Element that will hold the search box and its results.
+     *
+     * @type {any}
+     * @private
+     */
+    private search: any;
+
+    /**
+     * Element that will hold the buttons exporting the view as an image.
+     *
+     * @type {any}
+     * @private
+     */
+    private exportControls: any;
+
+    /**
+     * Button, displayed with the export buttons, that moves the personas of the current level back to their computed positions.
+     *
+     * @type {any}
+     * @private
+     */
+    private resetLayoutButton: any;
+
+    /**
+     * The text input of the search box.
+     *
+     * @type {any}
+     * @private
+     */
+    private searchInput: any;
+
+    /**
+     * Element that will hold the personas matching the search.
+     *
+     * @type {any}
+     * @private
+     */
+    private searchResults: any;
+
+    /**
+     * Element mirroring the personas of the current level for keyboard navigation and screen readers.
+     *
+     * @type {any}
+     * @private
+     */
+    private accessibleList: any;
+
+    /**
+     * Element that will hold the summary of the problems found in the hierarchy of the personas.
+     *
+     * @type {any}
+     * @private
+     */
+    private hierarchyInfo: any;
+
+    /**
+     * The problems found in the hierarchy of the personas by the last conversion: the orphaned personas moved to the
+     * root and the broken parent cycles, counted with a few samples like the diagnostics, and the labels of the collapsed
+     * single root personas.
+     *
+     * @type {any}
+     * @private
+     */
+    private hierarchyIssues: any = null;
+
+    /**
+     * Element that will hold the diagnostics of the data dropped or coerced by the last conversion.
+     *
+     * @type {any}
+     * @private
+     */
+    private diagnosticsInfo: any;
+
+    /**
+     * The data dropped or coerced by the last conversion: the count and sample values of each category, keyed by the
+     * categories in `DIAGNOSTIC_LABELS`, and `rowLimit`, the number of rows loaded when Max Data Rows stopped loading.
+     *
+     * @type {any}
+     * @private
+     */
+    private diagnostics: any = {};
+
+    /**
+     * The bucket selected through the legend, null if none.
+     *
+     * @type {string}
+     * @private
+     */
+    private legendBucket: string = null;
+
+    /**
+     * The saved view state being restored, null if no restore is in progress. Drill levels are restored one at a time,
+     * as the animation of the previous level ends.
+     *
+     * @type {any}
+     * @private
+     */
+    private pendingState: any = null;
+
+    /**
+     * The view state last sent to PowerBI to be persisted, null if none was sent.
+     *
+     * @type {any}
+     * @private
+     */
+    private persistedState: any = null;
+
+    /**
+     * Persists the view state of this visual once the user stops interacting with it.
+     *
+     * @type {Function}
+     * @private
+     */
+    private saveStateLater: any = _.debounce(() => this._saveState(), ClusterMap.SAVE_STATE_DELAY);
+
+    /**
+     * Listens to the events ending the interactions with the personas on the parent node of the visual's element.
+     *
+     * @type {Function}
+     * @private
+     */
+    private saveStateListener: () => void = () => this.saveStateLater();
+
+    /**
+     * The elements added over the canvas to the parent node of the visual's element, removed when the visual is destroyed.
+     *
+     * @type {Array<HTMLElement>}
+     * @private
+     */
+    private overlays: Array<HTMLElement> = [];
+
+    /**
+     * @constructor
+     * @param {VisualConstructorOptions} options - The PowerBI options for this visual's initialization.
+     */
+    constructor(options: VisualConstructorOptions) {
+        this.element = options.element;
+
+        /* example to get the host (services) and selection manager using the new API */
+        this.host = options.host;
+        this.selectionManager = options.host.createSelectionManager();
+        this.hostServices = (this.selectionManager as any).hostServices; // `hostServices` is now what we used to call `host`
+        this.isSandboxed = this.hostServices['messageProxy'];
+        this.tooltipService = (options.host as any).tooltipService || null;
+
+        $(this.element).on('mousedown pointerdown', (e) => e.stopPropagation());
+        /* personas stops the propagation of mouse events, track the mouse during the capture phase to position the tooltips */
+        this.element.addEventListener('mousemove', (e: MouseEvent) => this._moveTooltip(e), true);
+        /* drilling, selecting, panning and zooming all end with one of these events, save the view state after them */
+        ClusterMap.SAVE_STATE_EVENTS.forEach(eventName => this.element.parentNode.addEventListener(eventName, this.saveStateListener, true));
+
+        this.buildInfo = document.createElement('div');
+        this.buildInfo.innerText = (this as any).__essex_build_info__;
+
+        this.buildInfo.style.position = 'absolute';
+        this.buildInfo.style.bottom = 0;
+        this.buildInfo.style.left = 0;
+        this.buildInfo.style.color = '#888888';
+        this.buildInfo.style.fontSize = '10px';
+        this.buildInfo.style.visibility = 'hidden';
+
+        this._appendOverlay(this.buildInfo);
+
+        this.diagnosticsInfo = document.createElement('div');
+        this.diagnosticsInfo.className = 'cluster-map-diagnostics';
+
+        this.diagnosticsInfo.style.position = 'absolute';
+        this.diagnosticsInfo.style.bottom = '14px';
+        this.diagnosticsInfo.style.left = 0;
+        this.diagnosticsInfo.style.maxWidth = '60%';
+        this.diagnosticsInfo.style.padding = '4px 6px';
+        this.diagnosticsInfo.style.color = '#444444';
+        this.diagnosticsInfo.style.fontSize = '10px';
+        this.diagnosticsInfo.style.whiteSpace = 'pre-wrap';
+        this.diagnosticsInfo.style.backgroundColor = 'rgba(255,255,255,0.9)';
+        this.diagnosticsInfo.style.display = 'none';
+
+        this._appendOverlay(this.diagnosticsInfo);
+
+        this.progressInfo = document.createElement('div');
+        this.progressInfo.className = 'cluster-map-progress';
+
+        this.progressInfo.style.position = 'absolute';
+        this.progressInfo.style.top = '50%';
+        this.progressInfo.style.left = '50%';
+        this.progressInfo.style.transform = 'translate(-50%, -50%)';
+        this.progressInfo.style.padding = '4px 6px';
+        this.progressInfo.style.color = '#444444';
+        this.progressInfo.style.fontSize = '11px';
+        this.progressInfo.style.backgroundColor = 'rgba(255,255,255,0.9)';
+        this.progressInfo.style.display = 'none';
+        this.progressInfo.setAttribute('role', 'status');
+
+        this._appendOverlay(this.progressInfo);
+
+        this.legend = document.createElement('div');
+        this.legend.className = 'cluster-map-legend';
+
+        this.legend.style.position = 'absolute';
+        this.legend.style.padding = '4px 6px';
+        this.legend.style.maxWidth = '40%';
+        this.legend.style.color = '#444444';
+        this.legend.style.fontSize = '11px';
+        this.legend.style.backgroundColor = 'rgba(255,255,255,0.8)';
+        this.legend.style.display = 'none';
+
+        this._appendOverlay(this.legend);
+
+        this.hierarchyInfo = document.createElement('div');
+        this.hierarchyInfo.className = 'cluster-map-hierarchy-info';
+
+        this.hierarchyInfo.style.position = 'absolute';
+        this.hierarchyInfo.style.bottom = 0;
+        this.hierarchyInfo.style.left = '50%';
+        this.hierarchyInfo.style.transform = 'translateX(-50%)';
+        this.hierarchyInfo.style.maxWidth = '40%';
+        this.hierarchyInfo.style.padding = '4px 6px';
+        this.hierarchyInfo.style.color = '#8a5a00';
+        this.hierarchyInfo.style.fontSize = '11px';
+        this.hierarchyInfo.style.backgroundColor = 'rgba(255,244,214,0.9)';
+        this.hierarchyInfo.style.display = 'none';
+        this.hierarchyInfo.setAttribute('role', 'status');
+
+        this._appendOverlay(this.hierarchyInfo);
+
+        this.search = document.createElement('div');
+        this.search.className = 'cluster-map-search';
+
+        this.search.style.position = 'absolute';
+        this.search.style.bottom = 0;
+        this.search.style.left = 0;
+        this.search.style.width = '200px';
+        this.search.style.maxWidth = '40%';
+        this.search.style.fontSize = '11px';
+        this.search.style.display = 'none';
+
+        this.searchResults = document.createElement('div');
+        this.searchResults.style.color = '#444444';
+        this.searchResults.style.backgroundColor = 'rgba(255,255,255,0.9)';
+        this.search.appendChild(this.searchResults);
+
+        this.searchInput = document.createElement('input');
+        this.searchInput.type = 'text';
+        this.searchInput.placeholder = 'Search';
+        this.searchInput.style.width = '100%';
+        this.searchInput.style.boxSizing = 'border-box';
+        this.searchInput.addEventListener('input', () => this._updateSearchResults());
+        this.searchInput.addEventListener('keydown', (e: KeyboardEvent) => {
+            if (e.key === 'Enter' && this.searchResults.firstChild) {
+                this.searchResults.firstChild.click();
+            } else if (e.key === 'Escape') {
+                this.searchInput.value = '';
+                this._updateSearchResults();
+            }
+        });
+        this.search.appendChild(this.searchInput);
+
+        this._appendOverlay(this.search);
+
+        this.exportControls = document.createElement('div');
+        this.exportControls.className = 'cluster-map-export-controls';
+
+        this.exportControls.style.position = 'absolute';
+        this.exportControls.style.top = 0;
+        this.exportControls.style.left = '50%';
+        this.exportControls.style.transform = 'translateX(-50%)';
+        this.exportControls.style.fontSize = '11px';
+        this.exportControls.style.display = 'none';
+
+        Object.keys(ClusterMap.EXPORT_FORMATS).forEach(format => {
+            const isImage = format === 'png' || format === 'svg';
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.textContent = ClusterMap.EXPORT_FORMATS[format];
+            button.title = `Export the ${isImage ? 'view' : 'cluster graph'} as ${ClusterMap.EXPORT_FORMATS[format]}`;
+            button.style.fontSize = 'inherit';
+            button.style.margin = '2px';
+            button.setAttribute('data-format', format);
+            button.addEventListener('click', () => isImage ? this._exportView(format) : this._exportGraph(format));
+            this.exportControls.appendChild(button);
+        });
+
+        this.resetLayoutButton = document.createElement('button');
+        this.resetLayoutButton.type = 'button';
+        this.resetLayoutButton.textContent = 'Reset Layout';
+        this.resetLayoutButton.title = 'Move the clusters of this level back to their computed positions';
+        this.resetLayoutButton.style.fontSize = 'inherit';
+        this.resetLayoutButton.style.margin = '2px';
+        this.resetLayoutButton.addEventListener('click', () => this._resetLayout());
+        this.exportControls.appendChild(this.resetLayoutButton);
+
+        this._appendOverlay(this.exportControls);
+
+        /* the canvas can't be reached by keyboards or screen readers, mirror its personas in visually hidden elements */
+        const keyboardHelp = document.createElement('div');
+        keyboardHelp.id = 'cluster-map-keyboard-help';
+        keyboardHelp.innerText = ClusterMap.KEYBOARD_HELP;
+
+        this.accessibleList = document.createElement('div');
+        this.accessibleList.setAttribute('role', 'listbox');
+        this.accessibleList.setAttribute('aria-label', 'Clusters');
+        this.accessibleList.setAttribute('aria-multiselectable', 'true');
+        this.accessibleList.setAttribute('aria-describedby', keyboardHelp.id);
+        this.accessibleList.addEventListener('keydown', (e: KeyboardEvent) => this._handleAccessibleKey(e));
+        /* focus events don't bubble, listen to them during the capture phase */
+        this.accessibleList.addEventListener('focus', (e: FocusEvent) => this._outlinePersona((e.target as any).getAttribute('data-id')), true);
+        this.accessibleList.addEventListener('blur', () => this._outlinePersona(null), true);
+
+        [keyboardHelp, this.accessibleList].forEach(hidden => {
+            hidden.style.position = 'absolute';
+            hidden.style.width = '1px';
+            hidden.style.height = '1px';
+            hidden.style.overflow = 'hidden';
+            hidden.style.clip = 'rect(0 0 0 0)';
+            hidden.style.whiteSpace = 'nowrap';
+            this._appendOverlay(hidden);
+        });
+
+        this.selectionManager['registerOnSelectCallback'](
+            (ids: ISelectionId[]) => {
+                this.lastSelectionArgs = null;
+                if (ids.length) {
+                    this.lastSelectionArgs = ids;
+                    this.loadSelectionFromPowerBI();
+                }
+            });
+    }
+
+    /**
+     * ClusterMap's visualization destroy method. Called by PowerBI.
+     *
+     * @method destroy
+     */
+    public destroy(): void {
+        this._hideTooltip();
+        this.saveStateLater.cancel();
+        this._cancelAggregation();
+        if (this.worker) {
+            this.worker.terminate();
+            this.worker = null;
+        }
+        if (this.workerUrl) {
+            URL.revokeObjectURL(this.workerUrl);
+            this.workerUrl = null;
+        }
+        if (this.personas) {
+            this.personas.release();
+        }
+        ClusterMap.SAVE_STATE_EVENTS.forEach(eventName => this.element.parentNode.removeEventListener(eventName, this.saveStateListener, true));
+        this.overlays.splice(0).forEach(overlay => $(overlay).remove());
+    }
+
+    /**
+     * Adds the specified element over the canvas, to the parent node of the visual's element.
+     *
+     * @method _appendOverlay
+     * @param {HTMLElement} overlay - The element to add.
+     * @private
+     */
+    private _appendOverlay(overlay: HTMLElement): void {
+        this.overlays.push(overlay);
+        this.element.parentNode.appendChild(overlay);
+    }
+
+    /**
+     * Update function called by PowerBI when the visual or its data need to be updated.
+     *
+     * @method update
+     * @param {VisualUpdateOptions} options - Update options object as provided by PowerBI.
+     */
+    public update(options: VisualUpdateOptions) {
+        const viewport: any = options.viewport;
+        if (this.personas) {
+            if (options.type & powerbi.VisualUpdateType.Resize) {
                 this.personas.resize(viewport.width, viewport.height);
                 this._updateScale(viewport);
             } else if (options.type & powerbi.VisualUpdateType.ResizeEnd) {
@@ -289,13 +998,30 @@ export default class ClusterMap implements IVisual {
         if (options.dataViews && options.dataViews.length > 0 && options.dataViews[0].table) {
             const dataView = options.dataViews[0];
             const newObjects: any = options.dataViews[0] && options.dataViews[0].metadata && options.dataViews[0].metadata.objects;
-            if (newObjects && !_.isMatch(this.settings, newObjects)) {
+            /* custom bucket colors that are reset are removed from the objects, compare them separately */
+            const bucketInstancesChanged = newObjects && !_.isEqual(this._getBucketColorInstances(newObjects), this.settings.bucketColors.$instances);
+            if (newObjects && (!_.isMatch(this.settings, newObjects) || bucketInstancesChanged)) {
                 const oldGaugeColor = this.settings.presentation.normalColor.solid.color;
+                const oldUsePalette = this.settings.bucketColors.usePalette;
                 const oldLabels = this.settings.presentation.showNameLabels;
+                const oldShowOther = this.settings.presentation.showOther;
+                const oldSorting = _.pick(this.settings.presentation, ['sortBy', 'sortOrder', 'sizeScale']);
+                const oldState = _.clone(this.settings.state);
+                const oldLinks = $.extend(true, {}, this.settings.links);
+                const oldHierarchy = _.pick(this.settings.hierarchy, ['rollUpCounts', 'collapseSingleRoot']);
+                const oldLayoutConfig = this._getLayoutConfig();
                 $.extend(true, this.settings, newObjects);
+                this.settings.bucketColors.$instances = this._getBucketColorInstances(newObjects);
                 this.settings.presentation.initialCount = Math.max(this.settings.presentation.initialCount, 1);
                 this.settings.presentation.imageCount = Math.max(this.settings.presentation.imageCount, 0);
+                this.settings.presentation.loadMoreCount = Math.max(this.settings.presentation.loadMoreCount, 1);
+                this.settings.presentation.layoutPadding = Math.max(this.settings.presentation.layoutPadding, 0);
+                this.settings.presentation.layoutRepulsion = Math.max(this.settings.presentation.layoutRepulsion, 0);
                 this.settings.dataLoading.maxDataRows = Math.max(this.settings.dataLoading.maxDataRows, 1);
+                this.settings.links.maxLinks = Math.max(this.settings.links.maxLinks, 0);
+                this.settings.links.minWidth = Math.max(this.settings.links.minWidth, 0);
+                this.settings.links.maxWidth = Math.max(this.settings.links.maxWidth, this.settings.links.minWidth);
+                this.settings.imageExport.scale = Math.min(Math.max(this.settings.imageExport.scale, 1), ClusterMap.MAX_EXPORT_SCALE);
 
                 this.buildInfo.style.visibility = this.settings.general.displayBuildVersion ? 'visible' : 'hidden';
 
@@ -308,14 +1034,36 @@ export default class ClusterMap implements IVisual {
                 const normalColorChanged = (oldGaugeColor !== this.settings.presentation.normalColor.solid.color);
 
                 const labelsChanged = oldLabels !== this.settings.presentation.showNameLabels;
+                const showOtherChanged = oldShowOther !== this.settings.presentation.showOther;
+                const sortingChanged = !_.isEqual(oldSorting, _.pick(this.settings.presentation, ['sortBy', 'sortOrder', 'sizeScale']));
+                const layoutConfigChanged = !_.isEqual(oldLayoutConfig, this._getLayoutConfig());
+                const linksChanged = !_.isEqual(oldLinks, this.settings.links);
+                const hierarchyChanged = !_.isEqual(oldHierarchy, _.pick(this.settings.hierarchy, ['rollUpCounts', 'collapseSingleRoot']));
+                const bucketColorsChanged = bucketInstancesChanged || oldUsePalette !== this.settings.bucketColors.usePalette;
+                /* the state persisted by this visual is echoed back, only restore states coming from elsewhere, such as bookmarks */
+                const stateChanged = !_.isEqual(oldState, this.settings.state) && !_.isEqual(this.persistedState, this.settings.state);
+                if (stateChanged) {
+                    /* reload the data to replay the saved drill path from the root */
+                    this.dataKey = null;
+                }
                 if (this.personas) {
-                    /* set the layout type in personas */
-                    this.personas.layoutType = this.hasLinks ? this.settings.presentation.layout : 'orbital';
+                    /* update the layout configuration and set the layout type in personas */
+                    if (layoutConfigChanged) {
+                        this.personas.updateLayoutConfig(this._getLayoutConfig());
+                    }
+                    this.personas.layoutType = this._getLayoutType();
                     /* set the blur for the images */
                     // this.personas.enableBlur(this.settings.presentation.imageBlur);
 
                     /* the update was triggered by a change in the settings, retrun if the max number of personas or the gauge color didn't change */
-                    if (!maxPersonasChanged && !normalColorChanged && !maxImagesChanged && !labelsChanged) {
+                    if (!maxPersonasChanged && !normalColorChanged && !maxImagesChanged && !labelsChanged && !showOtherChanged && !bucketColorsChanged && !sortingChanged && !linksChanged && !hierarchyChanged && !stateChanged) {
+                        this._updateLoadMoreControl();
+                        this._updateAccessibleList();
+                        this._updateLegend();
+                        this._updateSearch();
+                        this._updateExportControls();
+                        this._updateHierarchyInfo();
+                        this._updateDiagnostics();
                         return;
                     }
                 }
@@ -324,7 +1072,6 @@ export default class ClusterMap implements IVisual {
             const append = (options.operationKind === powerbi.VisualDataChangeOperationKind.Append);
             this.updateDataView(dataView, append);
             this.initializePersonas(viewport);
-            this.personas.layoutType = this.hasLinks ? this.settings.presentation.layout : 'orbital';
 
             requestAnimationFrame(this.loadSelectionFromPowerBI.bind(this));
         }
@@ -340,37 +1087,83 @@ export default class ClusterMap implements IVisual {
     public updateDataView(dv: DataView, append?: boolean): void {
 
         // don't modify the source dataview, use a copy instead.
-        const dataView = $.extend(true, {}, dv);
-
-        // run this only if new data is being appended to the dataview (non-sandbox mode).
-        if (this.dataView && append) {
-            const mergedRows = this.dataView.table.rows;
-            mergedRows.push.apply(mergedRows, dataView.table.rows);
-            dataView.table.rows = mergedRows;
-
-            const mergedIdentities = this.dataView.table.identity;
-            mergedIdentities.push.apply(mergedIdentities, dataView.table.identity);
-            dataView.table.identity = mergedIdentities;
-
-            const highlights = (dataView.categorical &&
-            dataView.categorical.values &&
-            dataView.categorical.values.length &&
-            dataView.categorical.values[0].highlights);
-            if (highlights) {
-                const oldHighlights = (this.dataView.categorical &&
-                this.dataView.categorical.values &&
-                this.dataView.categorical.values.length &&
-                this.dataView.categorical.values[0].highlights);
-
-                if (oldHighlights) {
-                    oldHighlights.push.apply(oldHighlights, highlights);
-                    dataView.categorical.values[0].highlights = oldHighlights;
+        const segment = $.extend(true, {}, dv);
+        const appendRows = Boolean(this.dataView && append);
+
+        /* the rows still being folded are outdated by this update */
+        this._cancelAggregation();
+
+        /*
+         * merge the rows of an appended segment before folding them, so they're kept if a newer update cancels their
+         * fold: the cancelled aggregation can't be folded into anymore and the merged rows are aggregated from scratch
+         */
+        const dataView = appendRows ? this._mergeDataView(segment) : segment;
+        this.dataView = dataView;
+        this.aggregation = this._getAggregation(dataView, appendRows);
+
+        const folding = this._aggregateRowsInWorker(dataView, this.aggregation, aggregation => {
+            this._applyDataView(dataView, aggregation);
+            requestAnimationFrame(this.loadSelectionFromPowerBI.bind(this));
+        });
+        if (!folding) {
+            this._applyDataView(dataView, this._aggregateRows(dataView, this.aggregation));
+        }
+    }
+
+    /**
+     * Appends the rows of the specified segment of data to the rows of the data view, along with their identities,
+     * category values and highlights. Returns the segment, which now holds the merged rows.
+     *
+     * @method _mergeDataView
+     * @param {DataView} segment - The copy of the appended segment of data.
+     * @returns {DataView}
+     * @private
+     */
+    private _mergeDataView(segment: DataView): DataView {
+        const merge = (merged: Array<any>, values: Array<any>): Array<any> => {
+            if (merged && values) {
+                /* append one value at a time, spreading a large segment into the arguments of push overflows the stack */
+                for (let i = 0, n = values.length; i < n; ++i) {
+                    merged.push(values[i]);
                 }
+                return merged;
             }
+            return values;
+        };
+
+        segment.table.rows = merge(this.dataView.table.rows, segment.table.rows);
+        segment.table.identity = merge(this.dataView.table.identity, segment.table.identity);
+
+        /* the selection IDs of the personas are created from the categories of the row they were first seen in */
+        const categories = this.dataView.categorical && this.dataView.categorical.categories;
+        if (categories && segment.categorical && segment.categorical.categories) {
+            segment.categorical.categories.forEach((category, i) => {
+                if (categories[i]) {
+                    category.values = merge(categories[i].values, category.values);
+                    category.identity = merge(categories[i].identity, category.identity);
+                }
+            });
         }
 
-        /* save the data view */
-        this.dataView = dataView;
+        const highlights = this._getHighlights(segment);
+        const oldHighlights = this._getHighlights(this.dataView);
+        if (highlights && oldHighlights) {
+            segment.categorical.values[0].highlights = merge(oldHighlights, highlights);
+        }
+
+        return segment;
+    }
+
+    /**
+     * Applies the specified data view once its rows are folded into the aggregated personas: loads more data if needed
+     * and displays the data built from the aggregation.
+     *
+     * @method _applyDataView
+     * @param {DataView} dataView - The data view, with the rows of the appended segments merged into it.
+     * @param {any} aggregation - The aggregated personas, null if the required data roles aren't bound.
+     * @private
+     */
+    private _applyDataView(dataView: DataView, aggregation: any): void {
         /* if more data should be loaded, load the data before processing it */
         this.hasMoreData = !!dataView.metadata.segment;
         /* if there's more data to load and the configured number of rows hasn't been reached, load more data */
@@ -379,33 +1172,39 @@ export default class ClusterMap implements IVisual {
             return;
         }
 
-        /* convert the data */
-        const data: any = this.convert(dataView);
+        /* convert the data, unless the rows and the settings used to convert them didn't change */
+        const dataKey = this._getDataKey(aggregation);
+        const dataChanged = !dataKey || dataKey !== this.dataKey;
+        const data: any = dataChanged ? this._buildData(aggregation) : this.data;
+        this.diagnostics.rowLimit = this.hasMoreData ? dataView.table.rows.length : null;
 
         if (data) {
             this.element.style.visibility = 'visible';
-            let serializedData: string = JSON.stringify(data);
-            if (!this.serializedData || !_.isEqual(this.serializedData, serializedData)) {
-                this.serializedData = serializedData;
+            if (dataChanged) {
+                /* animate the displayed levels to the new data, unless nothing is displayed or a saved state is being restored */
+                const transition = Boolean(this.dataKey && this.personas && this.dataLayerStack.length && !this.pendingState);
+                const positions = transition ? this._collectManualPositions() : null;
+                this.dataKey = dataKey;
                 this.data = data;
+                /* the layout type depends on the links and positions of the data, which may have been folded in the worker */
                 if (this.personas) {
-                    this.lastSelectionArgs = null;
-                    this.dataLayerStack.length = 0;
-                    this.dataLayerStack.push({
-                        data: this.data.rootPersonas,
-                        select: null,
-                    });
-                    this.personas.loadData(this.dataLayerStack[this.dataLayerStack.length - 1].data, false);
-
-                    // this.otherPersona = this.personas.mOtherPersona;
-
-                    this.personas.displayBreadcrumbs = Object.keys(data.parentedPersonas).length > 0;
+                    this.personas.layoutType = this._getLayoutType();
+                }
+                if (transition) {
+                    this._transitionData(positions);
+                } else if (this.personas) {
+                    this._loadRootLayer();
                 }
+            } else {
+                /* the displayed data may contain personas loaded by the user, update the highlights to match it */
+                this.highlightedCounts = aggregation.highlightedCounts;
+                this.subSelectionData = this._buildSubSelectionData(this.data);
             }
 
             if (this.ignoreSelectionNextUpdate) {
                 this.ignoreSelectionNextUpdate = false;
             } else if (this.personas) {
+                this.legendBucket = null;
                 if (this.subSelectionData) {
                     this.lastSelectionArgs = null;
                     this.personas.personas.forEach(wrapper => {
@@ -426,511 +1225,2590 @@ export default class ClusterMap implements IVisual {
 
         } else if (this.personas) {
             this.element.style.visibility = 'hidden';
-            this.serializedData = null;
+            this.dataKey = null;
             this.data = null;
         }
+
+        this._updateLegend();
+        this._updateSearch();
+        this._updateExportControls();
+        this._updateHierarchyInfo();
+        this._updateDiagnostics();
+        this._updateAccessibleList();
     }
 
+    /**
+     * Converts the specified data view into the data used by the Personas component. Returns null if the data view has
+     * no rows or the required data roles aren't bound.
+     *
+     * @method convert
+     * @param {DataView} dataView - The data view to convert.
+     * @returns {any}
+     */
     public convert(dataView: DataView): any {
-        const maxPersonas = this.maxPersonas;
-        const maxImages = this.maxImages;
-        const metadata = dataView.metadata;
-        const table = dataView.table;
-        const highlights = (dataView.categorical &&
-        dataView.categorical.values &&
-        dataView.categorical.values.length &&
-        dataView.categorical.values[0].highlights);
-
-        if (table && table.columns.length > 0 && table.rows.length > 0) {
-            const columnIndices = {
-                'ID': [],
-                'Name': [],
-                'Count': [],
-                'Bucket': [],
-                'ImageUrl': [],
-                'BackgroundColor': [],
-                'LinkTo': [],
-                'LinkWeight': [],
-                'ParentID': [],
-            };
+        return this._buildData(this._aggregateRows(dataView, this._getAggregation(dataView, false)));
+    }
 
-            const columnNameMappings = {
-                'PersonaGroup': 'ID',
-                'ReferenceName': 'Name',
-                'ReferenceCount': 'Count',
-                'ReferenceBucket': 'Bucket',
-                'ReferenceImageUrl': 'ImageUrl',
-                'ReferenceBackgroundColor': 'BackgroundColor',
-                'ReferenceLinkTo': 'LinkTo',
-                'ReferenceLinkWeight': 'LinkWeight',
-                'ParentID': 'ParentID',
-            };
+    /**
+     * Folds the rows of the specified data view that aren't aggregated yet into the aggregated personas on the UI thread.
+     * Returns the aggregation, null if the required data roles aren't bound.
+     *
+     * @method _aggregateRows
+     * @param {DataView} dataView - The data view to aggregate.
+     * @param {any} aggregation - The aggregation returned by `_getAggregation` for the data view.
+     * @returns {any}
+     * @private
+     */
+    private _aggregateRows(dataView: DataView, aggregation: any): any {
+        if (aggregation) {
+            const fold = this._getUnfoldedRows(dataView, aggregation);
+            this._resolveFold(aggregation, dataView, foldRows(aggregation, fold.rows, fold.highlights));
+        }
+        return aggregation;
+    }
 
-            const nameMappings = Object.keys(columnNameMappings);
-            metadata.columns.forEach((column, i) => {
-                nameMappings.forEach(name => {
-                    if (column.roles[name]) {
-                        columnIndices[columnNameMappings[name]].push(i);
-                    }
-                });
-            });
+    /**
+     * Returns the rows of the specified data view following the rows already folded into the aggregation, along with
+     * their highlighted counts.
+     *
+     * @method _getUnfoldedRows
+     * @param {DataView} dataView - The data view to aggregate.
+     * @param {any} aggregation - The aggregation the rows are folded into.
+     * @returns {any}
+     * @private
+     */
+    private _getUnfoldedRows(dataView: DataView, aggregation: any): any {
+        const highlights = this._getHighlights(dataView);
+        return {
+            rows: dataView.table.rows.slice(aggregation.rowCount),
+            highlights: highlights && highlights.slice(aggregation.rowCount),
+        };
+    }
 
-            if (!columnIndices.ID.length || !columnIndices.Name.length || !columnIndices.Count.length) {
-                return null;
-            }
+    /**
+     * Folds the rows of the specified data view into the aggregated personas in a Web Worker, displaying the progress of
+     * the fold over the canvas. The aggregated personas are only replaced once the rows are folded, a newer update
+     * cancels the fold through `_cancelAggregation`. Once an aggregation is posted to the worker, the worker keeps it and
+     * the following segments are folded into it there, only the changed personas are posted back. Returns false if the
+     * rows should be folded on the UI thread instead: when there are only a few rows or workers aren't available, or the
+     * worker failed before.
+     *
+     * @method _aggregateRowsInWorker
+     * @param {DataView} dataView - The data view to aggregate.
+     * @param {any} aggregation - The aggregation returned by `_getAggregation` for the data view.
+     * @param {Function} callback - Called with the aggregation once the rows are folded.
+     * @returns {boolean}
+     * @private
+     */
+    private _aggregateRowsInWorker(dataView: DataView, aggregation: any, callback: (aggregation: any) => void): boolean {
+        const kept = Boolean(aggregation) && aggregation === this.workerAggregation;
+        if (!aggregation || this.workerUnavailable || (!kept && dataView.table.rows.length - aggregation.rowCount < ClusterMap.WORKER_ROWS)) {
+            return false;
+        }
 
-            this.hasLinks = Boolean(columnIndices.LinkTo.length);
-            this.hasBuckets = Boolean(columnIndices.Bucket.length);
-
-            const formatting = powerbi.extensibility.utils.formatting;
-            const labelFormat = metadata.columns[columnIndices.Name[0]].format;
-            const countFormat = metadata.columns[columnIndices.Count[0]].format;
-            const defaultFormatter = labelFormat ? formatting.valueFormatter.create({format: labelFormat}) : null;
-            const countFormatter = countFormat ? formatting.valueFormatter.create({format: countFormat}) : null;
-            const smallFormatter = formatting.valueFormatter.create({format: 'O', value: 0});
-            const bigFormatter = formatting.valueFormatter.create({format: 'O', value: 1e6});
-
-            const idColumnMetadata = metadata.columns[columnIndices.ID[0]] as any;
-            const personaMap = {};
-            const countedEntries = {};
-
-            this.buckets.length = 0;
-
-            table.rows.forEach((row, rowIndex) => {
-                let ID: string;
-                let rawName: any;
-                let count: number;
-
-                try {
-                    ID = row[columnIndices.ID[0]].toString();
-                    rawName = row[columnIndices.Name[0]];
-                    count = row[columnIndices.Count[0]] as number;
-                } catch (e) {
-                    return;
-                }
+        const worker = this._getWorker();
+        if (!worker) {
+            return false;
+        }
 
-                const rawParent: any = columnIndices.ParentID.length ? row[columnIndices.ParentID[0]] : null;
-                const parent: string = rawParent !== null && rawParent !== undefined && rawParent !== 'null' && rawParent.toString() !== ID ? rawParent.toString() : null;
-
-                let name: string = rawName.toString();
-                if (defaultFormatter) {
-                    name = defaultFormatter.format(rawName);
-                } else if (rawName instanceof Date) {
-                    name = rawName.toDateString();
-                } else if (typeof(rawName) === 'number') {
-                    if (rawName < 1e6 && rawName > -1e6) {
-                        name = smallFormatter.format(rawName);
-                    } else {
-                        name = bigFormatter.format(rawName);
-                    }
-                } else {
-                    name = this._decodeText(name);
-                }
+        const requestId = ++this.workerRequest;
+        this.pendingFold = requestId;
+        worker.onmessage = (e: MessageEvent) => {
+            const message = e.data;
+            if (message.id !== requestId || this.pendingFold !== requestId) {
+                return;
+            }
+            if (message.progress !== undefined) {
+                this._updateProgress(message.progress);
+                return;
+            }
+            this.pendingFold = null;
+            this._updateProgress(null);
+            $.extend(aggregation, message.aggregation);
+            $.extend(aggregation.personaMap, message.personas);
+            $.extend(aggregation.leafIds, message.leafIds);
+            this._resolveFold(aggregation, dataView, message);
+            callback(aggregation);
+        };
+        worker.onerror = (e: ErrorEvent) => {
+            /* the sandbox may not allow the worker to run, fold the rows of this and the following updates on the UI thread */
+            e.preventDefault();
+            this.workerUnavailable = true;
+            this._cancelAggregation();
+            this.aggregation = this._getAggregation(dataView, false);
+            callback(this._aggregateRows(dataView, this.aggregation));
+        };
+
+        this._updateProgress(0);
+        /* the aggregation is only posted with its first rows, the worker folds the rows posted next into it */
+        const fold = this._getUnfoldedRows(dataView, aggregation);
+        worker.postMessage({
+            id: requestId,
+            aggregation: kept ? null : _.pick(aggregation, ClusterMap.WORKER_AGGREGATION_KEYS),
+            rows: fold.rows,
+            highlights: fold.highlights,
+        });
+        if (!kept) {
+            this.workerAggregation = aggregation;
+            aggregation.countedEntries = null;
+        }
+        return true;
+    }
+
+    /**
+     * Cancels the fold running in the Web Worker, if any, by terminating the worker.
+     *
+     * @method _cancelAggregation
+     * @private
+     */
+    private _cancelAggregation(): void {
+        if (this.pendingFold !== null) {
+            this.pendingFold = null;
+            this.worker.terminate();
+            this.worker = null;
+            this.workerAggregation = null;
+            this._updateProgress(null);
+        }
+    }
+
+    /**
+     * Returns the Web Worker folding rows off the UI thread, created on first use. Returns null if workers aren't
+     * available or the worker failed before.
+     *
+     * @method _getWorker
+     * @returns {Worker}
+     * @private
+     */
+    private _getWorker(): Worker {
+        if (!this.worker && !this.workerUnavailable && typeof Worker !== 'undefined' && typeof Blob !== 'undefined' && typeof URL !== 'undefined' && URL.createObjectURL) {
+            try {
+                this.workerUrl = this.workerUrl || URL.createObjectURL(new Blob([FOLD_WORKER_SOURCE], { type: 'application/javascript' }));
+                this.worker = new Worker(this.workerUrl);
+            } catch (e) {
+                this.worker = null;
+                this.workerUnavailable = true;
+            }
+        }
+        return this.worker;
+    }
+
+    /**
+     * Displays the progress of the fold running in the Web Worker over the canvas, hides it if the progress is null.
+     *
+     * @method _updateProgress
+     * @param {number} progress - The fraction of the rows folded so far, null if no fold is running.
+     * @private
+     */
+    private _updateProgress(progress: number): void {
+        if (progress === null) {
+            this.progressInfo.style.display = 'none';
+        } else {
+            this.progressInfo.innerText = `Processing data: ${Math.floor(progress * 100)}%`;
+            this.progressInfo.style.display = 'block';
+        }
+    }
 
-                const bucketName = this.hasBuckets ? String(row[columnIndices.Bucket[0]]) : '';
-                if (this.buckets.indexOf(bucketName) === -1) {
-                    this.buckets.push(bucketName);
+    /**
+     * Returns the aggregation the rows of the specified data view are folded into: the current aggregation if the rows
+     * are appended and the columns didn't change, a new one otherwise. Returns null if the required data roles aren't
+     * bound.
+     *
+     * @method _getAggregation
+     * @param {DataView} dataView - The data view to aggregate.
+     * @param {boolean} append - Should the rows be added to the rows aggregated so far.
+     * @returns {any}
+     * @private
+     */
+    private _getAggregation(dataView: DataView, append: boolean): any {
+        const metadata = dataView.metadata;
+        const table = dataView.table;
+        const signature = table && table.columns.length > 0 ? JSON.stringify(metadata.columns.map(column => [column.roles, column.format, column.displayName])) : null;
+        /* the counted entries of an aggregation kept by a stopped worker are lost, no rows can be folded into it anymore */
+        const foldable = this.aggregation && (this.aggregation.countedEntries || this.aggregation === this.workerAggregation);
+        if (append && foldable && this.aggregation.signature === signature) {
+            return this.aggregation;
+        }
+        return signature ? this._createAggregation(metadata, signature) : null;
+    }
+
+    /**
+     * Returns the highlighted counts of the rows of the specified data view, null if nothing is highlighted.
+     *
+     * @method _getHighlights
+     * @param {DataView} dataView - The data view.
+     * @returns {Array<any>}
+     * @private
+     */
+    private _getHighlights(dataView: DataView): Array<any> {
+        return (dataView.categorical &&
+        dataView.categorical.values &&
+        dataView.categorical.values.length &&
+        dataView.categorical.values[0].highlights) || null;
+    }
+
+    /**
+     * Resolves the values of the personas added by a fold that can only be computed on the UI thread: formats their
+     * labels, creates their selection IDs from the rows of the folded data view and parses the raw colors of the rows.
+     *
+     * @method _resolveFold
+     * @param {any} aggregation - The aggregation the rows were folded into.
+     * @param {DataView} dataView - The folded data view.
+     * @param {any} fold - The result of `foldRows`.
+     * @private
+     */
+    private _resolveFold(aggregation: any, dataView: DataView, fold: any): void {
+        const formatLabel = (rawLabel: any, formatter: any): string => {
+            if (rawLabel === null || rawLabel === undefined) {
+                return ClusterMap.BLANK_LABEL;
+            } else if (formatter) {
+                return formatter.format(rawLabel);
+            } else if (rawLabel instanceof Date) {
+                return rawLabel.toDateString();
+            } else if (typeof(rawLabel) === 'number') {
+                if (rawLabel < 1e6 && rawLabel > -1e6) {
+                    return aggregation.smallFormatter.format(rawLabel);
                 }
+                return aggregation.bigFormatter.format(rawLabel);
+            }
+            return this._decodeText(rawLabel.toString());
+        };
+
+        const createSelectionId = (rowIndex: number, levelCount: number): ISelectionId => {
+            let builder: ISelectionIdBuilder = this.host.createSelectionIdBuilder();
+            for (let i = 0; i < levelCount; ++i) {
+                builder = builder.withCategory(dataView.categorical.categories[i], rowIndex);
+            }
+            return builder.createSelectionId();
+        };
 
-                const countKey = ID + name + bucketName;
+        fold.added.forEach(id => {
+            const persona = aggregation.personaMap[id];
+            const formatter = persona.levelCount === aggregation.hierarchyLevels ? aggregation.defaultFormatter : aggregation.levelFormatters[persona.levelCount - 1];
+            aggregation.labels[id] = formatLabel(persona.rawLabel, formatter);
+            aggregation.selectionIds[id] = createSelectionId(persona.rowIndex, persona.levelCount);
+        });
+
+        /* the bucket column follows the columns bound to the Cluster ID role in the categories */
+        const bucketCategory = aggregation.hasBuckets ? dataView.categorical.categories[aggregation.hierarchyLevels] : null;
+        if (bucketCategory) {
+            aggregation.buckets.filter(bucket => !aggregation.bucketSelectionIds[bucket]).forEach(bucket => {
+                aggregation.bucketSelectionIds[bucket] = this.host.createSelectionIdBuilder()
+                    .withCategory(bucketCategory, aggregation.bucketRows[bucket])
+                    .createSelectionId();
+            });
+        }
 
-                let persona = null;
-                if (personaMap[ID]) {
-                    persona = personaMap[ID];
-                    if (!countedEntries.hasOwnProperty(countKey)) {
-                        persona.count += count;
-                    }
-                } else {
-                    persona = {
-                        id: ID,
-                        label: name,
-                        count: parseFloat(count.toString()),
-                        properties: [],
-                        images: [],
-                        color: this.settings.presentation.normalColor.solid.color,
-                        select: this.host.createSelectionIdBuilder().withCategory(dataView.categorical.categories[0], rowIndex).createSelectionId(), // SQExprBuilder.equal(idColumnMetadata.expr, SQExprBuilder.typedConstant(row[columnIndices.ID[0]], idColumnMetadata.type)),
-                        links: null,
-                        parent: parent,
-                    };
-                    persona.count = isNaN(persona.count) ? null : persona.count;
-                    personaMap[ID] = persona;
+        Object.keys(fold.colors).forEach(value => {
+            if (!aggregation.colors.hasOwnProperty(value)) {
+                aggregation.colors[value] = this._parseColor(value);
+            }
+            if (!aggregation.colors[value]) {
+                addDiagnostic(aggregation.diagnostics, 'invalidColors', value, ClusterMap.DIAGNOSTIC_SAMPLES, fold.colors[value]);
+            }
+        });
+    }
+
+    /**
+     * Creates an empty aggregation for the columns described in the specified metadata. Returns null if the required
+     * data roles aren't bound.
+     *
+     * @method _createAggregation
+     * @param {any} metadata - The metadata of the data view.
+     * @param {string} signature - The signature of the columns, rows with a different signature can't be appended.
+     * @returns {any}
+     * @private
+     */
+    private _createAggregation(metadata: any, signature: string): any {
+        const columnIndices = {
+            'ID': [],
+            'Name': [],
+            'Count': [],
+            'Bucket': [],
+            'ImageUrl': [],
+            'BackgroundColor': [],
+            'LinkTo': [],
+            'LinkWeight': [],
+            'ParentID': [],
+            'Tooltips': [],
+            'SortBy': [],
+            'SizeBy': [],
+            'PositionX': [],
+            'PositionY': [],
+        };
+
+        const columnNameMappings = {
+            'PersonaGroup': 'ID',
+            'ReferenceName': 'Name',
+            'ReferenceCount': 'Count',
+            'ReferenceBucket': 'Bucket',
+            'ReferenceImageUrl': 'ImageUrl',
+            'ReferenceBackgroundColor': 'BackgroundColor',
+            'ReferenceLinkTo': 'LinkTo',
+            'ReferenceLinkWeight': 'LinkWeight',
+            'ParentID': 'ParentID',
+            'Tooltips': 'Tooltips',
+            'SortBy': 'SortBy',
+            'SizeBy': 'SizeBy',
+            'PositionX': 'PositionX',
+            'PositionY': 'PositionY',
+        };
+
+        const nameMappings = Object.keys(columnNameMappings);
+        metadata.columns.forEach((column, i) => {
+            nameMappings.forEach(name => {
+                if (column.roles[name]) {
+                    columnIndices[columnNameMappings[name]].push(i);
                 }
+            });
+        });
+
+        if (!columnIndices.ID.length || !columnIndices.Name.length || !columnIndices.Count.length) {
+            return null;
+        }
+
+        const formatting = powerbi.extensibility.utils.formatting;
+        const labelFormat = metadata.columns[columnIndices.Name[0]].format;
+        const countFormat = metadata.columns[columnIndices.Count[0]].format;
+        const createColumnInfo = index => {
+            const column = metadata.columns[index];
+            return {
+                displayName: column.displayName,
+                formatter: column.format ? formatting.valueFormatter.create({format: column.format}) : null,
+            };
+        };
+
+        return {
+            signature: signature,
+            columnIndices: columnIndices,
+            /* a hierarchy bound to the Cluster ID role nests each of its levels in the previous one, like ParentID does */
+            hierarchyLevels: columnIndices.ID.length,
+            levelFormatters: columnIndices.ID.map(index => {
+                const format = metadata.columns[index].format;
+                return format ? formatting.valueFormatter.create({format: format}) : null;
+            }),
+            hasBuckets: Boolean(columnIndices.Bucket.length),
+            defaultFormatter: labelFormat ? formatting.valueFormatter.create({format: labelFormat}) : null,
+            countFormatter: countFormat ? formatting.valueFormatter.create({format: countFormat}) : null,
+            smallFormatter: formatting.valueFormatter.create({format: 'O', value: 0}),
+            bigFormatter: formatting.valueFormatter.create({format: 'O', value: 1e6}),
+            countDisplayName: metadata.columns[columnIndices.Count[0]].displayName,
+            tooltipColumns: columnIndices.Tooltips.map(createColumnInfo),
+            sizeColumn: columnIndices.SizeBy.length ? createColumnInfo(columnIndices.SizeBy[0]) : null,
+            linkWeightColumn: columnIndices.LinkWeight.length ? createColumnInfo(columnIndices.LinkWeight[0]) : null,
+            maxImages: this.maxImages,
+            maxSamples: ClusterMap.DIAGNOSTIC_SAMPLES,
+            /* the labels, selection IDs and parsed colors of the personas are resolved on the UI thread */
+            labels: {},
+            selectionIds: {},
+            colors: {},
+            personaMap: {},
+            countedEntries: {},
+            leafIds: {},
+            buckets: [],
+            bucketRows: {},
+            bucketSelectionIds: {},
+            hasPositions: false,
+            highlightedCounts: null,
+            diagnostics: {},
+            rowCount: 0,
+            hash: ClusterMap.HASH_SEED,
+        };
+    }
+
+    /**
+     * Builds the data used by the Personas component from the aggregated personas: filters and styles the links,
+     * validates the hierarchy, sorts the personas into their levels and rolls up the highlights. The aggregated personas
+     * are left untouched so more rows can be folded into them. Returns null if no rows were aggregated.
+     *
+     * @method _buildData
+     * @param {any} aggregation - The aggregated personas, null if there are none.
+     * @returns {any}
+     * @private
+     */
+    private _buildData(aggregation: any): any {
+        this.diagnostics = aggregation ? $.extend(true, {}, aggregation.diagnostics) : {};
+        if (!aggregation || !aggregation.rowCount) {
+            return null;
+        }
 
-                /* build the property key */
-                if (!countedEntries.hasOwnProperty(countKey)) {
-                    if (this.hasBuckets || !persona.properties.length) {
-                        const propertyID = this.hasBuckets ? bucketName : 'ONE';
-                        const propertyIndex = persona.properties.findIndex(p => p.id === propertyID);
-                        let property = null;
-
-                        if (propertyIndex === -1) {
-                            property = {
-                                count: 0,
-                                color: persona.color,
-                                id: propertyID
-                            };
-                            persona.properties.push(property);
-                        } else {
-                            property = persona.properties[propertyIndex];
-                        }
-
-                        property.count += count;
-                    } else {
-                        persona.properties[0].count += count;
+        const maxPersonas = this.maxPersonas;
+        const columnIndices = aggregation.columnIndices;
+        const leafIds = aggregation.leafIds;
+        const linkWeightColumn = aggregation.linkWeightColumn;
+        const countFormatter = aggregation.countFormatter;
+
+        this.hasLinks = Boolean(columnIndices.LinkTo.length);
+        this.hasBuckets = aggregation.hasBuckets;
+        this.hasPositions = aggregation.hasPositions;
+        this.countDisplayName = aggregation.countDisplayName;
+        this.tooltipColumns = aggregation.tooltipColumns;
+        this.sizeColumn = aggregation.sizeColumn;
+        this.buckets.length = 0;
+        this.buckets.push(...aggregation.buckets);
+        this.bucketSelectionIds = aggregation.bucketSelectionIds;
+
+        const personaMap = {};
+        Object.keys(aggregation.personaMap).forEach(key => {
+            personaMap[key] = this._copyPersona(aggregation, aggregation.personaMap[key]);
+        });
+
+        /* check links, personas left without links by the filters are still laid out by the linked layouts */
+        let linkedPersonas = 0;
+        Object.keys(personaMap).forEach(key => {
+            const persona = personaMap[key];
+            if (persona.links) {
+                persona.links = persona.links.filter(link => {
+                    /* with a hierarchy, links can target the value of the last level instead of the full path */
+                    if (!personaMap.hasOwnProperty(link.target) && leafIds.hasOwnProperty(link.target)) {
+                        link.target = leafIds[link.target];
                     }
-                    countedEntries[countKey] = count;
+                    if (!personaMap.hasOwnProperty(link.target)) {
+                        this._addDiagnostic('danglingLinks', link.target);
+                        return false;
+                    }
+                    return true;
+                });
+
+                if (persona.links.length) {
+                    ++linkedPersonas;
+                    persona.links = this._filterLinks(persona.links, Boolean(linkWeightColumn));
                 }
 
-                if (columnIndices.ImageUrl.length) {
-                    columnIndices.ImageUrl.forEach(index => {
-                        if (persona.images.length < maxImages &&
-                            persona.images.indexOf(row[index]) < 0 &&
-                            isImageUrlAllowed(<string>row[index])) {
-                            persona.images.push(row[index]);
-                        }
-                    });
+                if (!persona.links.length) {
+                    persona.links = null;
                 }
+            }
+        });
 
-                if (this.hasLinks) {
-                    const linkID: string = row[columnIndices.LinkTo[0]].toString();
-                    const linkStrength = columnIndices.LinkWeight.length ? row[columnIndices.LinkWeight[0]] : 0;
+        if (linkedPersonas <= 0) {
+            this.hasLinks = false;
+        } else {
+            this._styleLinks(personaMap, linkWeightColumn);
+        }
 
-                    if (!persona.links) {
-                        persona.links = [];
-                    }
+        this.hierarchyIssues = {
+            collapsed: [],
+        };
+        if (aggregation.hierarchyLevels === 1 && columnIndices.ParentID.length) {
+            this._validateParents(personaMap);
+            if (this.settings.hierarchy.rollUpCounts) {
+                this._rollUpCounts(personaMap);
+            }
+        }
 
-                    persona.links.push({
-                        target: linkID,
-                        weight: linkStrength,
-                    });
-                }
-            });
+        this.buckets.sort();
 
-            /* check links */
-            let linkedPersonas = 0;
-            Object.keys(personaMap).forEach(key => {
-                const persona = personaMap[key];
-                if (persona.links) {
-                    persona.links = persona.links.filter(link => {
-                        return personaMap.hasOwnProperty(link.target);
-                    });
+        const personaKeys = Object.keys(personaMap);
+        personaKeys.sort((keyA, keyB) => this._comparePersonas(personaMap[keyA], personaMap[keyB], columnIndices.SortBy.length > 0));
 
-                    if (!persona.links.length) {
-                        persona.links = null;
-                    } else {
-                        ++linkedPersonas;
-                    }
+        const newData = {
+            rootPersonas: this._createLevelData(null),
+            parentedPersonas: {
+
+            },
+        };
+
+        for (let i = 0, n = personaKeys.length; i < n; ++i) {
+            const key = personaKeys[i];
+            const persona = personaMap[key];
+
+            let levelData: any;
+            if (persona.parent === null) {
+                levelData = newData.rootPersonas;
+            } else {
+                levelData = newData.parentedPersonas[persona.parent];
+                if (!levelData) {
+                    levelData = this._createLevelData(persona.parent);
+                    newData.parentedPersonas[persona.parent] = levelData;
                 }
-            });
+            }
+
+            /* personas beyond the max count are kept hidden until the user loads them */
+            if (levelData.personas.length < maxPersonas) {
+                levelData.personas.push(this._processPersona(persona, countFormatter));
+            } else {
+                levelData.hiddenPersonas.push(persona);
+                this._addDiagnostic('hiddenPersonas', persona.label);
+            }
+        }
 
-            if (linkedPersonas <= 0) {
-                this.hasLinks = false;
+        while (this.settings.hierarchy.collapseSingleRoot && newData.rootPersonas.personas.length === 1 && !newData.rootPersonas.hiddenPersonas.length) {
+            const id = newData.rootPersonas.personas[0].id;
+            const childData = newData.parentedPersonas[id];
+            if (childData) {
+                this.hierarchyIssues.collapsed.push(newData.rootPersonas.personas[0].label);
+                newData.rootPersonas = newData.parentedPersonas[id];
+                delete newData.parentedPersonas[id];
+            } else {
+                break;
             }
+        }
 
-            this.buckets.sort();
+        /* append the "Other" persona, if needed, and scale the personas per level */
+        this.countFormatter = countFormatter;
+        this._updateLevelData(newData.rootPersonas);
+        Object.keys(newData.parentedPersonas).forEach(key => this._updateLevelData(newData.parentedPersonas[key]));
 
-            const personaKeys = Object.keys(personaMap);
-            personaKeys.sort((keyA, keyB) => personaMap[keyB].count - personaMap[keyA].count);
+        this.highlightedCounts = aggregation.highlightedCounts;
+        this.subSelectionData = this._buildSubSelectionData(newData);
 
-            const newData = {
-                rootPersonas: {
-                    personas: [],
-                    minSize: Number.MAX_SAFE_INTEGER,
-                    maxSize: 0,
-                },
-                parentedPersonas: {
+        return newData;
+    }
 
-                },
-            };
+    /**
+     * Returns a copy of the specified aggregated persona that can be modified while building the data, with its label,
+     * selection ID and colors resolved. The background color of a persona is the first valid color of its rows.
+     *
+     * @method _copyPersona
+     * @param {any} aggregation - The aggregation of the persona.
+     * @param {any} persona - The aggregated persona.
+     * @returns {any}
+     * @private
+     */
+    private _copyPersona(aggregation: any, persona: any): any {
+        const colorValue = persona.colorValues.find(value => Boolean(aggregation.colors[value]));
+        const backgroundColor = colorValue ? aggregation.colors[colorValue] : null;
+        return $.extend({}, persona, {
+            label: aggregation.labels[persona.id],
+            select: aggregation.selectionIds[persona.id],
+            color: backgroundColor || this.settings.presentation.normalColor.solid.color,
+            backgroundColor: backgroundColor,
+            properties: persona.properties.map(property => $.extend({}, property)),
+            images: persona.images.slice(),
+            links: persona.links ? persona.links.map(link => $.extend({}, link)) : null,
+            tooltipValues: persona.tooltipValues.slice(),
+        });
+    }
 
-            for (let i = 0, n = personaKeys.length; i < n; ++i) {
-                const key = personaKeys[i];
-                const persona = personaMap[key];
+    /**
+     * Returns a key that changes whenever the data built from the specified aggregation would change: it combines the
+     * hash of the aggregated rows with the settings listed in `DATA_SETTINGS`. Returns null if there is no aggregation.
+     *
+     * @method _getDataKey
+     * @param {any} aggregation - The aggregated personas.
+     * @returns {string}
+     * @private
+     */
+    private _getDataKey(aggregation: any): string {
+        if (!aggregation) {
+            return null;
+        }
+        return [aggregation.signature, aggregation.rowCount, aggregation.hash, JSON.stringify(ClusterMap.DATA_SETTINGS.map(path => _.get(this.settings, path)))].join('|');
+    }
 
-                const properties = !this.hasBuckets ? [] : persona.properties.sort((pa, pb) => {
-                    if (pa.id < pb.id) {
-                        return -1;
-                    }
-                    if (pa.id > pb.id) {
-                        return 1;
-                    }
-                    return 0;
-                });
+    /**
+     * Enumerates the instances for the objects that appear in the PowerBI panel.
+     *
+     * @method enumerateObjectInstances
+     * @param {EnumerateVisualObjectInstancesOptions} options - Options object containing the objects to enumerate, as provided by PowerBI.
+     * @returns {VisualObjectInstance[]}
+     */
+    public enumerateObjectInstances(options: EnumerateVisualObjectInstancesOptions): VisualObjectInstance[] {
+        let instances: VisualObjectInstance[] = [{
+            selector: null,
+            objectName: options.objectName,
+            properties: {}
+        }];
 
-                properties.forEach(property => {
-                    if (countFormatter) {
-                        property.formattedCount = countFormatter.format(property.count);
-                    }
+        $.extend(true, instances[0].properties, this.settings[options.objectName]);
+
+        /* list a color picker for each bucket, persisted using the bucket as a user defined selector */
+        if (options.objectName === 'bucketColors') {
+            delete instances[0].properties['$instances'];
+            if (this.hasBuckets) {
+                const entries = this.buckets.map(bucket => ({ id: bucket, color: null }));
+                this._colorProperties(entries);
+                entries.forEach(entry => {
+                    instances.push({
+                        objectName: options.objectName,
+                        displayName: entry.id,
+                        selector: { id: entry.id },
+                        properties: {
+                            fill: { solid: { color: this._parseColor(entry.color) } },
+                        },
+                    });
                 });
+            }
+        }
+
+        /* the link options only apply when the data has links */
+        if (options.objectName === 'links' && !this.hasLinks) {
+            return [];
+        }
 
-                this._colorProperties(properties);
+        /* the view state is persisted by the visual itself, it is not displayed in the property pane */
+        if (options.objectName === 'state') {
+            return [];
+        }
 
-                const processedPersona: any = {
-                    id: persona.id,
-                    scalingFactor: 1,
-                    totalCount: persona.count,
-                    label: persona.label,
-                    properties: properties,
-                    images: persona.images,
-                    links: persona.links,
-                    select: persona.select,
-                };
-
-                if (countFormatter) {
-                    processedPersona.formattedTotalCount = countFormatter.format(persona.count);
+        /* only display the tuning options that apply to the selected layout */
+        if (options.objectName === 'presentation') {
+            const layout = this.settings.presentation.layout;
+            if (layout === 'physical') {
+                delete instances[0].properties['layoutPadding'];
+            }
+            if (layout !== 'force-directed') {
+                delete instances[0].properties['layoutRepulsion'];
+            }
+        }
+
+        return instances;
+    }
+
+    public initializePersonas(viewport) {
+        if (!this.personas) {
+            const personasOptions: any = {
+                general: {
+                    initialDeviceScale: viewport.scale * 2,
+                    breadcrumbsSegmentedBackground: false,
+                },
+                layout: $.extend({
+                    layoutType: this._getLayoutType(),
+                    zoomControlsPosition: 'bottom-right',
+                    viewportMinZoomMultiplier: 0.15,
+                }, this._getLayoutConfig()),
+                persona: {
+                    selectedBorderColor: '#000000',
+                    backgroundColor: 'rgb(73,73,73)',
+                    labelMinFontSize: 8,
+                    labelNameShow: this.settings.presentation.showNameLabels,
+                },
+            };
+
+            this.personas = new Personas(this.element, personasOptions);
+
+            this.personas.on(PersonaEvents.PERSONA_CLICKED, (sender, globalPoint, localPoint, modifiers) => {
+                this._clickPersona(sender, modifiers);
+            });
+
+            this.personas.on(PersonaEvents.PERSONA_SUB_LEVEL_CLICKED, sender => {
+                this._drillDown(sender);
+            });
+
+            this.personas.on(PersonaEvents.PERSONA_POINTER_OVER, sender => {
+                const subLayerData = this.data.parentedPersonas[sender.id];
+                if (subLayerData) {
+                    sender.showSubLevelBadge();
+                }
+                if (this.settings.links.showLabels) {
+                    this.personas.showLinkLabels(sender.id);
                 }
+                this._showTooltip(sender);
+            });
 
-                if (persona.parent === null) {
-                    if (newData.rootPersonas.personas.length < maxPersonas) {
-                        newData.rootPersonas.personas.push(processedPersona);
-                        newData.rootPersonas.minSize = Math.min(newData.rootPersonas.minSize, processedPersona.totalCount);
-                        newData.rootPersonas.maxSize = Math.max(newData.rootPersonas.maxSize, processedPersona.totalCount);
-                    }
-                } else {
-                    let parentedData: any = newData.parentedPersonas[persona.parent];
-                    if (!parentedData) {
-                        parentedData = {
-                            personas: [],
-                            minSize: Number.MAX_SAFE_INTEGER,
-                            maxSize: 0,
-                        };
-                        newData.parentedPersonas[persona.parent] = parentedData;
-                    }
-                    if (parentedData.personas.length < maxPersonas) {
-                        parentedData.personas.push(processedPersona);
-                        parentedData.minSize = Math.min(parentedData.minSize, processedPersona.totalCount);
-                        parentedData.maxSize = Math.max(parentedData.maxSize, processedPersona.totalCount);
+            this.personas.on(PersonaEvents.PERSONA_POINTER_OUT, sender => {
+                sender.hideSubLevelBadge();
+                this.personas.showLinkLabels(null);
+                this._hideTooltip();
+            });
+
+            this.personas.on(LayoutEvents.LAYOUT_BLANK_SPACE_CLICKED, () => {
+                this._clearLegendSelection();
+                this.personas.personas.forEach(wrapper => {
+                    wrapper.object.selected = false;
+                    wrapper.object.setFocus(true, true);
+                });
+                this.personas.unhighlight();
+                if (this.lastSelectionArgs !== this.dataLayerStack[this.dataLayerStack.length - 1].select || this.dataLayerStack[this.dataLayerStack.length - 1].select === null) {
+                    this.selectionManager.clear();
+                    if (this.dataLayerStack[this.dataLayerStack.length - 1].select) {
+                        this.selectionManager.select(this.dataLayerStack[this.dataLayerStack.length - 1].select);
+                        this.lastSelectionArgs = this.dataLayerStack[this.dataLayerStack.length - 1].select;
                     }
                 }
+                this._updateAccessibleList();
+            });
+
+            this.personas.on(LayoutEvents.LAYOUT_PERSONA_DROPPED, () => {
+                this._updateManualPositions();
+            });
+
+            this.personas.on(LayoutEvents.LAYOUT_LOAD_MORE_CLICKED, () => {
+                this._loadMorePersonas();
+            });
+
+            this.personas.on(BreadcrumbEvents.LAYOUT_BREADCRUMB_CLICKED, (sender, index) => {
+                this._goToBreadcrumb(index);
+            });
+
+            this.personas.on([LayoutEvents.LAYOUT_ANIMATION_REPULSION_END, LayoutEvents.LAYOUT_ANIMATION_CONTRACTION_END], () => {
+                this._restoreState();
+            });
+
+            if (this.data) {
+                this._loadRootLayer();
+                if (this.subSelectionData) {
+                    this.lastSelectionArgs = null;
+                    this.personas.highlight(this.subSelectionData, true);
+                }
+            } else {
+                this.element.style.visibility = 'hidden';
             }
 
-            while (newData.rootPersonas.personas.length === 1) {
-                const id = newData.rootPersonas.personas[0].id;
-                const childData = newData.parentedPersonas[id];
-                if (childData) {
-                    newData.rootPersonas = newData.parentedPersonas[id];
-                    delete newData.parentedPersonas[id];
-                } else {
-                    break;
+            this._updateScale(viewport);
+        }
+    }
+
+    /**
+     * Handles a click, or a key press, on the specified persona: modifier keys toggle the persona, plain clicks select
+     * only the persona unless it's the only one selected.
+     *
+     * @method _clickPersona
+     * @param {any} sender - The persona.
+     * @param {any} modifiers - The state of the modifier keys, if any.
+     * @private
+     */
+    private _clickPersona(sender: any, modifiers: any): void {
+        const multiSelect = Boolean(modifiers && (modifiers.ctrlKey || modifiers.metaKey || modifiers.shiftKey));
+        const selectedCount = this.personas.personas.filter(wrapper => wrapper.object.selected).length;
+        const shouldSelect = multiSelect ? !sender.selected : !(sender.selected && selectedCount === 1);
+        this.handleSelection(sender, shouldSelect, multiSelect);
+    }
+
+    /**
+     * Selects the specified persona in PowerBI and, if it has sub-levels, drills down into them.
+     *
+     * @method _drillDown
+     * @param {any} sender - The persona.
+     * @private
+     */
+    private _drillDown(sender: any): void {
+        this._hideTooltip();
+        const personaData = this.dataLayerStack[this.dataLayerStack.length - 1].data.personas.find(p => p.id === sender.id);
+        if (personaData) {
+            const selectArgs = this._getSelectionArgs(personaData);
+            this.selectionManager.clear();
+            this.selectionManager.select(selectArgs);
+            this.lastSelectionArgs = selectArgs;
+
+            const subLayerData = this.data.parentedPersonas[sender.id];
+            if (subLayerData) {
+                sender.hideSubLevelBadge();
+                this._clearLegendSelection();
+                this.personas.personas.forEach(wrapper => {
+                    wrapper.object.selected = false;
+                    wrapper.object.setFocus(true, false);
+                });
+                this.personas.unhighlight();
+
+                this.dataLayerStack.push({
+                    data: subLayerData,
+                    select: selectArgs,
+                });
+                this.personas.addDataLayer(this.dataLayerStack[this.dataLayerStack.length - 1].data, sender);
+                this._updateLoadMoreControl();
+                this._updateAccessibleList();
+                this._updateExportControls();
+            }
+        }
+    }
+
+    /**
+     * Goes back up to the level of the breadcrumb at the specified index. The last breadcrumb, the current level, is
+     * zoomed to fit instead.
+     *
+     * @method _goToBreadcrumb
+     * @param {number} index - The index of the breadcrumb.
+     * @private
+     */
+    private _goToBreadcrumb(index: number): void {
+        if (index === this.personas.breadcrumbs.length - 1) {
+            this.personas.autoZoom();
+        } else if (index >= 0 && this.personas.breadcrumbs.length > 1) {
+            const toRemove = this.personas.breadcrumbs.length - index - 1;
+            this.personas.removeDataLayer(toRemove);
+            this.dataLayerStack.splice(-toRemove, toRemove);
+            this._clearLegendSelection();
+            this._updateLoadMoreControl();
+            this._updateAccessibleList();
+            this._updateExportControls();
+            this.selectionManager.clear();
+            if (this.dataLayerStack[this.dataLayerStack.length - 1].select) {
+                this.selectionManager.select(this.dataLayerStack[this.dataLayerStack.length - 1].select);
+                this.lastSelectionArgs = this.dataLayerStack[this.dataLayerStack.length - 1].select;
+            }
+        }
+    }
+
+    /**
+     * Rebuilds the accessible mirror of the personas in the current level. If one of its items had the focus, the
+     * focus is kept on the same persona or, if it is no longer displayed, moved to the first one.
+     *
+     * @method _updateAccessibleList
+     * @private
+     */
+    private _updateAccessibleList(): void {
+        const list = this.accessibleList;
+        const focusedId = list.contains(document.activeElement) ? document.activeElement.getAttribute('data-id') : null;
+        while (list.firstChild) {
+            list.removeChild(list.firstChild);
+        }
+
+        const layer = this.dataLayerStack[this.dataLayerStack.length - 1];
+        if (!layer || !this.data) {
+            return;
+        }
+
+        const selectedIds = this.personas ? this.personas.personas.filter(wrapper => wrapper.object.selected).map(wrapper => wrapper.id) : [];
+        layer.data.personas.forEach(personaData => {
+            const item = document.createElement('div');
+            item.setAttribute('role', 'option');
+            item.setAttribute('data-id', personaData.id);
+            item.setAttribute('aria-selected', String(selectedIds.indexOf(personaData.id) !== -1));
+            item.setAttribute('aria-label', this._getAccessibleLabel(personaData));
+            item.tabIndex = 0;
+            list.appendChild(item);
+        });
+
+        if (focusedId !== null) {
+            const items = Array.prototype.slice.call(list.childNodes);
+            const target = items.find(item => item.getAttribute('data-id') === focusedId) || items[0];
+            if (target) {
+                target.focus();
+            }
+        }
+    }
+
+    /**
+     * Returns the text read by screen readers for the specified persona: its label, count and buckets, along with the
+     * rest of the items of its tooltip.
+     *
+     * @method _getAccessibleLabel
+     * @param {any} personaData - The data of the persona.
+     * @returns {string}
+     * @private
+     */
+    private _getAccessibleLabel(personaData: any): string {
+        const items = this._getTooltipData(personaData);
+        return [items[0].header].concat(items.map(item => item.displayName + ': ' + item.value)).join(', ');
+    }
+
+    /**
+     * Handles the keys pressed while an item of the accessible mirror has the focus.
+     *
+     * @method _handleAccessibleKey
+     * @param {KeyboardEvent} event - The keyboard event.
+     * @private
+     */
+    private _handleAccessibleKey(event: KeyboardEvent): void {
+        if (!this.personas) {
+            return;
+        }
+
+        const items = Array.prototype.slice.call(this.accessibleList.childNodes);
+        const index = items.indexOf(document.activeElement);
+        const id = index !== -1 ? items[index].getAttribute('data-id') : null;
+        const wrapper = this.personas.personas.find(w => w.id === id);
+
+        switch (event.key) {
+            case 'ArrowRight':
+            case 'ArrowDown':
+                if (items.length) {
+                    items[(index + 1) % items.length].focus();
+                }
+                break;
+
+            case 'ArrowLeft':
+            case 'ArrowUp':
+                if (items.length) {
+                    items[(Math.max(index, 0) + items.length - 1) % items.length].focus();
+                }
+                break;
+
+            case 'Enter':
+            case ' ':
+                if (wrapper) {
+                    this._clickPersona(wrapper.object, event);
+                }
+                break;
+
+            case 'PageDown':
+                if (wrapper) {
+                    this._drillDown(wrapper.object);
+                }
+                break;
+
+            case 'Backspace':
+                if (this.dataLayerStack.length > 1 && this.personas.breadcrumbs) {
+                    this._goToBreadcrumb(this.personas.breadcrumbs.length - 2);
+                }
+                break;
+
+            case '+':
+            case '=':
+                this.personas.zoomIn();
+                break;
+
+            case '-':
+                this.personas.zoomOut();
+                break;
+
+            default:
+                return;
+        }
+
+        event.preventDefault();
+    }
+
+    /**
+     * Outlines the persona with the specified ID, to show it has the keyboard focus, and removes the outline of the
+     * other personas.
+     *
+     * @method _outlinePersona
+     * @param {string} id - The ID of the persona to outline, null to remove all the outlines.
+     * @private
+     */
+    private _outlinePersona(id: string): void {
+        if (this.personas) {
+            this.personas.personas.forEach(wrapper => {
+                wrapper.object.outlined = wrapper.id === id;
+            });
+        }
+    }
+
+    /**
+     * Loads the root level of the data in personas and starts restoring the saved drill path, selection and zoom.
+     *
+     * @method _loadRootLayer
+     * @private
+     */
+    private _loadRootLayer(): void {
+        const state = this._getSavedState();
+        const hasState = Boolean(state.drillPath.length || state.selection.length || state.zoom);
+
+        this.lastSelectionArgs = null;
+        this.dataLayerStack.length = 0;
+        this.dataLayerStack.push({
+            data: this.data.rootPersonas,
+            select: null,
+        });
+        this.pendingState = hasState && this.data.rootPersonas.personas.length ? state : null;
+        this._applyManualPositions(state.positions);
+        this.personas.loadData(this.dataLayerStack[this.dataLayerStack.length - 1].data, false, !(this.pendingState && state.zoom));
+        this.personas.displayBreadcrumbs = Object.keys(this.data.parentedPersonas).length > 0;
+        this._updateLoadMoreControl();
+        this._updateAccessibleList();
+        this._updateExportControls();
+    }
+
+    /**
+     * Updates the displayed levels with the new data in place, so the personas animate to their new values instead of
+     * being reloaded. The drill path is kept down to the deepest level whose parent persona still exists.
+     *
+     * @method _transitionData
+     * @param {any} positions - The positions of the moved personas, by level key and persona ID.
+     * @private
+     */
+    private _transitionData(positions: any): void {
+        const layers = [{
+            data: this.data.rootPersonas,
+            select: null,
+        }];
+
+        this.dataLayerStack.slice(1).some(layer => {
+            const levelData = layers[layers.length - 1].data;
+            const id = layer.data.parentId;
+            const subLayerData = this.data.parentedPersonas[id];
+            const hiddenIndex = levelData.hiddenPersonas.findIndex(persona => persona.id === id);
+            if (subLayerData && hiddenIndex !== -1) {
+                /* the parent persona was pushed out of the displayed personas, show it to stay in its level */
+                this._showHiddenPersonas(levelData, hiddenIndex + 1);
+                this.subSelectionData = this._buildSubSelectionData(this.data);
+            }
+
+            const personaData = levelData.personas.find(p => p.id === id);
+            if (!personaData || !subLayerData) {
+                return true;
+            }
+
+            layers.push({
+                data: subLayerData,
+                select: this._getSelectionArgs(personaData),
+            });
+            return false;
+        });
+
+        const levelsRemoved = this.dataLayerStack.length > layers.length;
+        this.dataLayerStack.length = 0;
+        this.dataLayerStack.push(...layers);
+        this._applyManualPositions(positions);
+        this.personas.updateDataLayers(this.dataLayerStack.map(layer => layer.data));
+        this.personas.displayBreadcrumbs = Object.keys(this.data.parentedPersonas).length > 0;
+
+        if (levelsRemoved) {
+            const layer = this.dataLayerStack[this.dataLayerStack.length - 1];
+            this._clearLegendSelection();
+            this.selectionManager.clear();
+            this.lastSelectionArgs = layer.select;
+            if (layer.select) {
+                this.selectionManager.select(layer.select);
+            }
+        }
+
+        this._updateLoadMoreControl();
+        this._updateAccessibleList();
+        this._updateExportControls();
+    }
+
+    /**
+     * Returns the view state saved in the settings. Values that can't be parsed are ignored.
+     *
+     * @method _getSavedState
+     * @returns {any}
+     * @private
+     */
+    private _getSavedState(): any {
+        const parse = (value: string, isValid: (parsed: any) => boolean): any => {
+            try {
+                const parsed = value ? JSON.parse(value) : null;
+                return parsed && isValid(parsed) ? parsed : null;
+            } catch (e) {
+                return null;
+            }
+        };
+
+        return {
+            drillPath: parse(this.settings.state.drillPath, _.isArray) || [],
+            selection: parse(this.settings.state.selection, _.isArray) || [],
+            zoom: parse(this.settings.state.zoom, zoom => _.isFinite(zoom.scale) && _.isFinite(zoom.x) && _.isFinite(zoom.y)),
+            positions: parse(this.settings.state.positions, _.isPlainObject) || {},
+        };
+    }
+
+    /**
+     * Restores the next step of the pending view state: drills down to the next level of the saved path if it still
+     * exists; otherwise, selects the saved personas and applies the saved zoom. If the state has a persona to focus,
+     * it is selected and zoomed on instead.
+     *
+     * @method _restoreState
+     * @private
+     */
+    private _restoreState(): void {
+        const state = this.pendingState;
+        if (!state || !this.personas || !this.data) {
+            return;
+        }
+
+        const nextId = state.drillPath.length ? String(state.drillPath[0]) : state.focus;
+        if (nextId && this._revealPersona(nextId)) {
+            /* wait for the revealed persona to be positioned before drilling into it or zooming on it */
+            window.setTimeout(() => this._restoreState(), this.personas.layoutConfig.layoutPositionAnimationDuration);
+            return;
+        }
+
+        if (state.drillPath.length) {
+            const id = String(state.drillPath.shift());
+            const personaData = this.dataLayerStack[this.dataLayerStack.length - 1].data.personas.find(p => p.id === id);
+            const subLayerData = this.data.parentedPersonas[id];
+            const wrapper = this.personas.personas.find(w => w.id === id);
+            if (personaData && subLayerData && wrapper) {
+                this.dataLayerStack.push({
+                    data: subLayerData,
+                    select: this._getSelectionArgs(personaData),
+                });
+                this.personas.addDataLayer(subLayerData, wrapper.object, !state.zoom && !state.focus);
+                this._updateLoadMoreControl();
+                this._updateAccessibleList();
+                this._updateExportControls();
+                return;
+            }
+
+            /* the saved level no longer exists, stay at the deepest level found and fit it in the view */
+            if (state.zoom) {
+                state.zoom = null;
+                this.personas.autoZoom();
+            }
+        }
+
+        this.pendingState = null;
+
+        if (state.focus) {
+            const focused = this.personas.personas.find(w => w.id === state.focus);
+            if (focused) {
+                this.handleSelection(focused.object, true);
+                this.personas.autoZoom(focused.object);
+            } else {
+                this.personas.autoZoom();
+            }
+            this.saveStateLater();
+            return;
+        }
+
+        const layer = this.dataLayerStack[this.dataLayerStack.length - 1];
+        const ids = state.selection.map(String).filter(id => layer.data.personas.some(p => p.id === id));
+        if (ids.length) {
+            this._selectPersonas(ids);
+        } else if (layer.select) {
+            this.selectionManager.clear();
+            this.selectionManager.select(layer.select);
+            this.lastSelectionArgs = layer.select;
+        }
+
+        if (state.zoom) {
+            this.personas.zoom = state.zoom;
+        }
+    }
+
+    /**
+     * Displays the specified persona if it is hidden in the current level, along with the hidden personas before it.
+     * Returns whether the persona was hidden.
+     *
+     * @method _revealPersona
+     * @param {string} id - The ID of the persona to reveal.
+     * @returns {boolean}
+     * @private
+     */
+    private _revealPersona(id: string): boolean {
+        const levelData = this.dataLayerStack[this.dataLayerStack.length - 1].data;
+        const index = levelData.hiddenPersonas.findIndex(persona => persona.id === id);
+        if (index === -1) {
+            return false;
+        }
+
+        this._loadMorePersonas(index + 1);
+        return true;
+    }
+
+    /**
+     * Shows or hides the search box and updates its results to match the current data.
+     *
+     * @method _updateSearch
+     * @private
+     */
+    private _updateSearch(): void {
+        if (!this.settings.search.show || !this.data) {
+            this.search.style.display = 'none';
+            this.searchInput.value = '';
+        } else {
+            this.search.style.display = 'block';
+        }
+        this._updateSearchResults();
+    }
+
+    /**
+     * Shows the export buttons while there is data, the image and graph buttons are enabled separately in the settings.
+     * The reset layout button is shown while the user has moved personas of the current level.
+     *
+     * @method _updateExportControls
+     * @private
+     */
+    private _updateExportControls(): void {
+        const showImage = this.settings.imageExport.show;
+        const showGraph = this.settings.graphExport.show;
+        const layer = this.dataLayerStack[this.dataLayerStack.length - 1];
+        const showReset = Boolean(this.personas && layer && layer.data.positions);
+        Array.prototype.forEach.call(this.exportControls.childNodes, button => {
+            const format = button.getAttribute('data-format');
+            if (format) {
+                button.style.display = (format === 'png' || format === 'svg' ? showImage : showGraph) ? '' : 'none';
+            }
+        });
+        this.resetLayoutButton.style.display = showReset ? '' : 'none';
+        this.exportControls.style.display = (showImage || showGraph || showReset) && this.data ? 'block' : 'none';
+    }
+
+    /**
+     * Returns the key under which the positions of the moved personas of the specified level are saved.
+     *
+     * @method _getLevelKey
+     * @param {any} levelData - The data of the level.
+     * @returns {string}
+     * @private
+     */
+    private _getLevelKey(levelData: any): string {
+        return levelData.parentId === null ? '' : String(levelData.parentId);
+    }
+
+    /**
+     * Sets the saved positions of the moved personas on the data of their levels, so they are placed there when the
+     * levels are loaded. Positions that aren't numbers are ignored.
+     *
+     * @method _applyManualPositions
+     * @param {any} positions - The saved positions of the moved personas, by level key and persona ID.
+     * @private
+     */
+    private _applyManualPositions(positions: any): void {
+        const levels = [this.data.rootPersonas].concat(Object.keys(this.data.parentedPersonas).map(key => this.data.parentedPersonas[key]));
+        levels.forEach(levelData => {
+            const savedPositions = positions[this._getLevelKey(levelData)] || {};
+            const levelPositions = {};
+            Object.keys(savedPositions).forEach(id => {
+                const position = savedPositions[id];
+                if (position && _.isFinite(position.x) && _.isFinite(position.y)) {
+                    levelPositions[id] = position;
+                }
+            });
+            levelData.positions = _.isEmpty(levelPositions) ? null : levelPositions;
+        });
+    }
+
+    /**
+     * Returns the positions of the moved personas of every level, by level key and persona ID. The saved positions of
+     * levels missing from the current data are kept.
+     *
+     * @method _collectManualPositions
+     * @returns {any}
+     * @private
+     */
+    private _collectManualPositions(): any {
+        const positions = this._getSavedState().positions;
+        if (this.data) {
+            const levels = [this.data.rootPersonas].concat(Object.keys(this.data.parentedPersonas).map(key => this.data.parentedPersonas[key]));
+            levels.forEach(levelData => {
+                const key = this._getLevelKey(levelData);
+                if (levelData.positions) {
+                    positions[key] = levelData.positions;
+                } else {
+                    delete positions[key];
+                }
+            });
+        }
+        return positions;
+    }
+
+    /**
+     * Stores the positions the user moved the personas of the current level to in the data of the level and saves them.
+     *
+     * @method _updateManualPositions
+     * @private
+     */
+    private _updateManualPositions(): void {
+        const layer = this.dataLayerStack[this.dataLayerStack.length - 1];
+        if (this.personas && layer) {
+            const positions = this.personas.manualPositions;
+            layer.data.positions = _.isEmpty(positions) ? null : positions;
+            this._updateExportControls();
+            this.saveStateLater();
+        }
+    }
+
+    /**
+     * Moves the personas of the current level back to their computed positions and forgets where the user moved them.
+     *
+     * @method _resetLayout
+     * @private
+     */
+    private _resetLayout(): void {
+        if (this.personas) {
+            this.personas.resetLayout();
+            this._updateManualPositions();
+        }
+    }
+
+    /**
+     * Exports the current view as a PNG image, at the configured scale, or as an SVG document and downloads it. The
+     * legend of the buckets is drawn over the view when enabled.
+     *
+     * @method _exportView
+     * @param {string} format - The format of the exported file, 'png' or 'svg'.
+     * @private
+     */
+    private _exportView(format: string): void {
+        if (!this.personas) {
+            return;
+        }
+
+        const settings = this.settings.imageExport;
+        const drawOverlay = settings.includeLegend ? (context, width, height) => this._drawLegend(context, width, height) : null;
+        let url: string;
+        if (format === 'svg') {
+            url = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(this.personas.exportSVG(drawOverlay));
+        } else {
+            url = this.personas.exportImage(settings.scale, settings.includeBreadcrumbs, drawOverlay).toDataURL('image/png');
+        }
+        this._downloadFile(url, `cluster-map.${format}`);
+    }
+
+    /**
+     * Exports the cluster graph, of the current level or of the whole hierarchy as configured, and downloads it as a
+     * single file, browsers block consecutive downloads.
+     *
+     * @method _exportGraph
+     * @param {string} format - The format of the exported file, 'json', 'csv' or 'graphml'.
+     * @private
+     */
+    private _exportGraph(format: string): void {
+        if (!this.data) {
+            return;
+        }
+
+        const graph = this._buildGraph(this.settings.graphExport.scope === 'hierarchy');
+        if (format === 'csv') {
+            this._downloadFile('data:text/csv;charset=utf-8,' + encodeURIComponent(this._graphToCSV(graph)), 'cluster-map.csv');
+        } else if (format === 'graphml') {
+            this._downloadFile('data:application/xml;charset=utf-8,' + encodeURIComponent(this._graphToGraphML(graph)), 'cluster-map.graphml');
+        } else {
+            this._downloadFile('data:application/json;charset=utf-8,' + encodeURIComponent(JSON.stringify(graph, null, 2)), 'cluster-map.json');
+        }
+    }
+
+    /**
+     * Builds the cluster graph, as described by the JSON graph schema in the README, from the converted data. The
+     * "Other" personas are left out, the personas they aggregate are included and flagged as hidden. Only the links
+     * between exported personas are included, once per direction.
+     *
+     * @method _buildGraph
+     * @param {boolean} wholeHierarchy - Should every level be exported, otherwise only the current level is.
+     * @returns {any}
+     * @private
+     */
+    private _buildGraph(wholeHierarchy: boolean): any {
+        const nodes = [];
+        const edges = [];
+        const personas = [];
+
+        const addLevel = (levelData: any, depth: number) => {
+            const parent = levelData === this.data.rootPersonas ? null : levelData.parentId;
+            const visible = levelData.personas.filter(persona => !persona.isOther);
+            visible.concat(levelData.hiddenPersonas).forEach((persona, index) => {
+                const buckets = {};
+                if (this.hasBuckets) {
+                    persona.properties.forEach(property => {
+                        buckets[property.id] = property.count;
+                    });
+                }
+                personas.push(persona);
+                nodes.push({
+                    id: persona.id,
+                    label: persona.label,
+                    count: persona.hasOwnProperty('totalCount') ? persona.totalCount : persona.count,
+                    parent: parent,
+                    level: depth,
+                    hidden: index >= visible.length,
+                    buckets: buckets,
+                });
+
+                const childData = this.data.parentedPersonas[persona.id];
+                if (wholeHierarchy && childData) {
+                    addLevel(childData, depth + 1);
+                }
+            });
+        };
+
+        if (wholeHierarchy || !this.dataLayerStack.length) {
+            addLevel(this.data.rootPersonas, 0);
+        } else {
+            addLevel(this.dataLayerStack[this.dataLayerStack.length - 1].data, this.dataLayerStack.length - 1);
+        }
+
+        const ids = {};
+        const exported = {};
+        nodes.forEach(node => {
+            ids[node.id] = true;
+        });
+        personas.forEach(persona => {
+            (persona.links || []).forEach(link => {
+                const linkKey = JSON.stringify([persona.id, link.target]);
+                if (ids.hasOwnProperty(link.target) && !exported[linkKey]) {
+                    exported[linkKey] = true;
+                    const weight = parseFloat(link.weight);
+                    edges.push({ source: persona.id, target: link.target, weight: isFinite(weight) ? weight : null });
+                }
+            });
+        });
+
+        return {
+            version: ClusterMap.GRAPH_SCHEMA_VERSION,
+            scope: wholeHierarchy ? 'hierarchy' : 'level',
+            buckets: this.hasBuckets ? this.buckets.slice() : [],
+            nodes: nodes,
+            edges: edges,
+        };
+    }
+
+    /**
+     * Converts a cluster graph into a CSV document with one row per node followed by one row per edge. The `type`
+     * column tells them apart, the node columns, with a column per bucket, are left empty for the edges and the edge
+     * columns for the nodes.
+     *
+     * @method _graphToCSV
+     * @param {any} graph - The graph, as returned by `_buildGraph`.
+     * @returns {string}
+     * @private
+     */
+    private _graphToCSV(graph: any): string {
+        const toCSV = (rows: Array<Array<any>>) => rows.map(row => row.map(value => {
+            const text = value === null || value === undefined ? '' : String(value);
+            return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        }).join(',')).join('\r\n');
+
+        const header = ['type', 'id', 'label', 'count', 'parent', 'level', 'hidden'].concat(graph.buckets, ['source', 'target', 'weight']);
+        const emptyNode = header.slice(1, -3).map(() => null);
+        const nodeRows = graph.nodes.map(node =>
+            ['node', node.id, node.label, node.count, node.parent, node.level, node.hidden].concat(graph.buckets.map(bucket => node.buckets[bucket]), [null, null, null])
+        );
+        const edgeRows = graph.edges.map(edge => ['edge'].concat(emptyNode, [edge.source, edge.target, edge.weight]));
+
+        return toCSV([header].concat(nodeRows, edgeRows));
+    }
+
+    /**
+     * Converts a cluster graph into a GraphML document with directed edges. The bucket counts are stored in a node
+     * attribute per bucket, named after the bucket.
+     *
+     * @method _graphToGraphML
+     * @param {any} graph - The graph, as returned by `_buildGraph`.
+     * @returns {string}
+     * @private
+     */
+    private _graphToGraphML(graph: any): string {
+        const escape = (value: any) => String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+        const data = (key: string, value: any) => value === null || value === undefined ? '' : `<data key="${key}">${escape(value)}</data>`;
+        const lines = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<graphml xmlns="${ClusterMap.GRAPHML_NAMESPACE}">`,
+            '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+            '  <key id="count" for="node" attr.name="count" attr.type="double"/>',
+            '  <key id="parent" for="node" attr.name="parent" attr.type="string"/>',
+            '  <key id="level" for="node" attr.name="level" attr.type="int"/>',
+            '  <key id="hidden" for="node" attr.name="hidden" attr.type="boolean"/>',
+        ];
+        graph.buckets.forEach((bucket, i) => {
+            lines.push(`  <key id="bucket${i}" for="node" attr.name="${escape(bucket)}" attr.type="double"/>`);
+        });
+        lines.push('  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>');
+        lines.push('  <graph id="clusters" edgedefault="directed">');
+        graph.nodes.forEach(node => {
+            const buckets = graph.buckets.map((bucket, i) => data(`bucket${i}`, node.buckets[bucket])).join('');
+            lines.push(`    <node id="${escape(node.id)}">${data('label', node.label)}${data('count', node.count)}${data('parent', node.parent)}` +
+                `${data('level', node.level)}${data('hidden', node.hidden)}${buckets}</node>`);
+        });
+        graph.edges.forEach(edge => {
+            lines.push(`    <edge source="${escape(edge.source)}" target="${escape(edge.target)}">${data('weight', edge.weight)}</edge>`);
+        });
+        lines.push('  </graph>');
+        lines.push('</graphml>');
+        return lines.join('\n');
+    }
+
+    /**
+     * Downloads the resource at the specified URL with the specified file name.
+     *
+     * @method _downloadFile
+     * @param {string} url - The URL, usually a data URL, of the resource to download.
+     * @param {string} fileName - The name of the downloaded file.
+     * @private
+     */
+    private _downloadFile(url: string, fileName: string): void {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.style.display = 'none';
+        this.element.parentNode.appendChild(link);
+        link.click();
+        this.element.parentNode.removeChild(link);
+    }
+
+    /**
+     * Draws the legend of the buckets, placed as configured in the legend settings, into a canvas or SVG context.
+     *
+     * @method _drawLegend
+     * @param {any} context - The context in which the legend is drawn.
+     * @param {number} width - The width of the view.
+     * @param {number} height - The height of the view.
+     * @private
+     */
+    private _drawLegend(context: any, width: number, height: number): void {
+        if (!this.settings.legend.show || !this.hasBuckets || !this.data) {
+            return;
+        }
+
+        const padding = 6;
+        const lineHeight = 16;
+        const swatchSize = 10;
+        const entries = this.buckets.map(bucket => ({ id: bucket, color: null }));
+        this._colorProperties(entries);
+
+        context.save();
+        context.font = '11px sans-serif';
+        context.textAlign = 'left';
+        context.textBaseline = 'middle';
+        const textWidth = entries.reduce((max, entry) => Math.max(max, context.measureText(entry.id).width), 0);
+        const legendWidth = Math.min(padding * 2 + swatchSize + 4 + textWidth, width * 0.4);
+        const legendHeight = padding * 2 + entries.length * lineHeight;
+        const position = String(this.settings.legend.position).split('-');
+        const x = position[1] === 'left' ? 0 : width - legendWidth;
+        const y = position[0] === 'bottom' ? height - legendHeight : 0;
+
+        context.fillStyle = 'rgba(255,255,255,0.8)';
+        context.fillRect(x, y, legendWidth, legendHeight);
+        entries.forEach((entry, i) => {
+            const isSelected = entry.id === this.legendBucket;
+            const lineY = y + padding + lineHeight * (i + 0.5);
+            context.globalAlpha = this.legendBucket === null || isSelected ? 1 : 0.5;
+            context.fillStyle = isSelected ? entry['selectedColor'] : entry.color;
+            context.fillRect(x + padding, lineY - swatchSize * 0.5, swatchSize, swatchSize);
+            context.fillStyle = '#444444';
+            context.fillText(entry.id, x + padding + swatchSize + 4, lineY);
+        });
+        context.restore();
+    }
+
+    /**
+     * Lists the personas matching the text of the search box. Clicking a result navigates to its persona.
+     *
+     * @method _updateSearchResults
+     * @private
+     */
+    private _updateSearchResults(): void {
+        const container = this.searchResults;
+        while (container.firstChild) {
+            container.removeChild(container.firstChild);
+        }
+
+        this._getSearchResults(this.searchInput.value).forEach(result => {
+            const item = document.createElement('div');
+            item.style.padding = '2px 4px';
+            item.style.cursor = 'pointer';
+            item.style.whiteSpace = 'nowrap';
+            item.style.overflow = 'hidden';
+            item.style.textOverflow = 'ellipsis';
+            item.title = result.parents.concat(result.label).join(' / ');
+            item.appendChild(document.createTextNode(result.label));
+
+            if (result.parents.length) {
+                const parents = document.createElement('span');
+                parents.style.marginLeft = '4px';
+                parents.style.color = '#888888';
+                parents.appendChild(document.createTextNode(result.parents.join(' / ')));
+                item.appendChild(parents);
+            }
+
+            item.addEventListener('click', () => {
+                this.searchInput.value = '';
+                this._updateSearchResults();
+                this._goToPersona(result.id, result.path);
+            });
+            container.appendChild(item);
+        });
+    }
+
+    /**
+     * Returns the personas, in all the levels of the data, whose label contains the specified text, ignoring case.
+     * Each result contains the IDs and labels of the personas to drill into to reach it from the root level.
+     *
+     * @method _getSearchResults
+     * @param {string} text - The text to search for.
+     * @returns {Array}
+     * @private
+     */
+    private _getSearchResults(text: string): Array<any> {
+        const query = text.trim().toLowerCase();
+        const results = [];
+        if (!query || !this.data) {
+            return results;
+        }
+
+        const searchLevel = (levelData: any, path: string[], parents: string[]) => {
+            levelData.personas.filter(persona => !persona.isOther).concat(levelData.hiddenPersonas).forEach(persona => {
+                const label = String(persona.label);
+                if (results.length < ClusterMap.SEARCH_MAX_RESULTS && label.toLowerCase().indexOf(query) !== -1) {
+                    results.push({ id: persona.id, label: label, path: path, parents: parents });
+                }
+
+                const childData = this.data.parentedPersonas[persona.id];
+                if (childData) {
+                    searchLevel(childData, path.concat(persona.id), parents.concat(label));
+                }
+            });
+        };
+        searchLevel(this.data.rootPersonas, [], []);
+
+        return results;
+    }
+
+    /**
+     * Navigates to the specified persona: goes back up to the deepest level of the current drill path shared with the
+     * persona's path, drills down the rest of it, then selects the persona and zooms on it.
+     *
+     * @method _goToPersona
+     * @param {string} id - The ID of the persona.
+     * @param {string[]} path - The IDs of the personas to drill into to reach the persona from the root level.
+     * @private
+     */
+    private _goToPersona(id: string, path: string[]): void {
+        if (!this.personas || !this.dataLayerStack.length) {
+            return;
+        }
+
+        const currentPath = this.dataLayerStack.slice(1).map(layer => layer.data.parentId);
+        let shared = 0;
+        while (shared < currentPath.length && shared < path.length && currentPath[shared] === path[shared]) {
+            ++shared;
+        }
+
+        this._hideTooltip();
+        this._clearLegendSelection();
+        this.pendingState = {
+            drillPath: path.slice(shared),
+            selection: [],
+            zoom: null,
+            focus: id,
+        };
+
+        const toRemove = currentPath.length - shared;
+        if (toRemove > 0) {
+            this.personas.removeDataLayer(toRemove, false);
+            this.dataLayerStack.splice(-toRemove, toRemove);
+            this._updateLoadMoreControl();
+            this._updateAccessibleList();
+            this._updateExportControls();
+        } else {
+            this._restoreState();
+        }
+    }
+
+    /**
+     * Persists the current drill path, selection, zoom and moved personas through the host, if they changed since they
+     * were saved.
+     *
+     * @method _saveState
+     * @private
+     */
+    private _saveState(): void {
+        if (!this.personas || this.pendingState || !this.dataLayerStack.length) {
+            return;
+        }
+
+        const state = {
+            drillPath: JSON.stringify(this.dataLayerStack.slice(1).map(layer => layer.data.parentId)),
+            selection: JSON.stringify(this.personas.personas.filter(wrapper => wrapper.object.selected).map(wrapper => wrapper.id)),
+            zoom: JSON.stringify(this.personas.zoom),
+            positions: JSON.stringify(this._collectManualPositions()),
+        };
+
+        if (!_.isEqual(state, this.settings.state) && !_.isEqual(state, this.persistedState)) {
+            this.persistedState = state;
+            (this.host as any).persistProperties({
+                merge: [{
+                    objectName: 'state',
+                    selector: null,
+                    properties: state,
+                }],
+            });
+        }
+    }
+
+    /**
+     * Returns the layout type to use. Layouts that require links fall back to the orbital layout when the data has none, the
+     * fixed layout falls back to the relational layout, or the orbital one, when no persona has a position.
+     *
+     * @method _getLayoutType
+     * @returns {string}
+     * @private
+     */
+    private _getLayoutType(): string {
+        const layout = this.settings.presentation.layout.toString();
+        if (layout === 'fixed' && !this.hasPositions) {
+            return this.hasLinks ? 'cola' : 'orbital';
+        }
+        if (!this.hasLinks && ClusterMap.LINKED_LAYOUTS.indexOf(layout) !== -1) {
+            return 'orbital';
+        }
+        return layout;
+    }
+
+    /**
+     * Maps the layout tuning settings to the layout configuration used by the Personas component. The padding is added
+     * to the built-in padding of each layout, so the default padding of 0 keeps the spacing of the layouts unchanged.
+     *
+     * @method _getLayoutConfig
+     * @returns {any}
+     * @private
+     */
+    private _getLayoutConfig(): any {
+        const presentation = this.settings.presentation;
+        return {
+            layoutOrbitalPadding: LayoutConfig.layoutOrbitalPadding + presentation.layoutPadding,
+            layoutColaPadding: LayoutConfig.layoutColaPadding + presentation.layoutPadding,
+            layoutFixedPadding: LayoutConfig.layoutFixedPadding + presentation.layoutPadding,
+            viewportPersonaDragging: presentation.movableClusters,
+            layoutForceDirectedPadding: LayoutConfig.layoutForceDirectedPadding + presentation.layoutPadding,
+            layoutForceDirectedRepulsion: presentation.layoutRepulsion,
+        };
+    }
+
+    /**
+     * Converts an aggregated persona into the format used by the Personas component.
+     *
+     * @method _processPersona
+     * @param {any} persona - The aggregated persona data.
+     * @param {any} countFormatter - The formatter used for the counts, if any.
+     * @returns {any}
+     * @private
+     */
+    private _processPersona(persona: any, countFormatter: any): any {
+        const properties = !this.hasBuckets ? [] : persona.properties.sort((pa, pb) => {
+            if (pa.id < pb.id) {
+                return -1;
+            }
+            if (pa.id > pb.id) {
+                return 1;
+            }
+            return 0;
+        });
+
+        properties.forEach(property => {
+            if (countFormatter) {
+                property.formattedCount = countFormatter.format(property.count);
+            }
+        });
+
+        this._colorProperties(properties, persona.color);
+
+        const processedPersona: any = {
+            id: persona.id,
+            scalingFactor: 1,
+            totalCount: persona.count,
+            label: persona.label,
+            properties: properties,
+            images: persona.images,
+            links: persona.links,
+            select: persona.select,
+            tooltipValues: persona.tooltipValues,
+            sizeValue: persona.sizeValue,
+            position: persona.positionCount ? { x: persona.xSum / persona.positionCount, y: persona.ySum / persona.positionCount } : null,
+        };
+
+        if (persona.backgroundColor) {
+            processedPersona.backgroundColor = persona.backgroundColor;
+        }
+
+        if (countFormatter) {
+            processedPersona.formattedTotalCount = countFormatter.format(persona.count);
+        }
+
+        return processedPersona;
+    }
+
+    /**
+     * Fixes the parents of the specified personas so every persona can be reached from the root. Personas whose parent
+     * is not in the data are moved to the root and parent cycles are broken at the persona with the lowest ID, which is
+     * moved to the root. The problems found are counted in `hierarchyIssues`, with a few of them kept as samples.
+     *
+     * @method _validateParents
+     * @param {any} personaMap - The aggregated personas, keyed by ID.
+     * @private
+     */
+    private _validateParents(personaMap: any): void {
+        const keys = Object.keys(personaMap).sort();
+        keys.forEach(key => {
+            const persona = personaMap[key];
+            if (persona.parent !== null && !personaMap.hasOwnProperty(persona.parent)) {
+                persona.parent = null;
+                this._addDiagnostic('orphans', persona.label, this.hierarchyIssues);
+            }
+        });
+
+        const VISITING = 1;
+        const VISITED = 2;
+        const states = {};
+        keys.forEach(key => {
+            const chain = [];
+            let id = key;
+            while (id !== null && !states[id]) {
+                states[id] = VISITING;
+                chain.push(id);
+                id = personaMap[id].parent;
+            }
+
+            if (id !== null && states[id] === VISITING) {
+                const cycle = chain.slice(chain.indexOf(id));
+                const root = personaMap[cycle.slice().sort()[0]];
+                root.parent = null;
+                const labels = cycle.map(cycleId => personaMap[cycleId].label);
+                this._addDiagnostic('cycles', labels.concat(labels[0]).join(' > '), this.hierarchyIssues);
+            }
+
+            chain.forEach(chainId => states[chainId] = VISITED);
+        });
+    }
+
+    /**
+     * Adds the counts of the children of each persona, and of their buckets, to the counts of the persona.
+     *
+     * @method _rollUpCounts
+     * @param {any} personaMap - The aggregated personas, keyed by ID. Their parents must not contain cycles.
+     * @private
+     */
+    private _rollUpCounts(personaMap: any): void {
+        const children = _.groupBy(Object.keys(personaMap).map(key => personaMap[key]).filter(persona => persona.parent !== null), 'parent');
+        const rolledUp = {};
+        const rollUp = persona => {
+            if (rolledUp[persona.id]) {
+                return;
+            }
+            rolledUp[persona.id] = true;
+            (children[persona.id] || []).forEach(child => {
+                rollUp(child);
+                persona.count = (persona.count || 0) + (child.count || 0);
+                child.properties.forEach(childProperty => {
+                    let property = persona.properties.find(p => p.id === childProperty.id);
+                    if (!property) {
+                        property = {
+                            count: 0,
+                            color: persona.color,
+                            id: childProperty.id,
+                        };
+                        persona.properties.push(property);
+                    }
+                    property.count += childProperty.count;
+                });
+            });
+        };
+        Object.keys(personaMap).forEach(key => rollUp(personaMap[key]));
+    }
+
+    /**
+     * Displays the summary of the problems found in the hierarchy of the personas, if enabled and any was found.
+     *
+     * @method _updateHierarchyInfo
+     * @private
+     */
+    private _updateHierarchyInfo(): void {
+        const info = this.hierarchyInfo;
+        const issues = this.hierarchyIssues;
+        const messages = [];
+        if (issues && this.data) {
+            if (issues.orphans) {
+                messages.push(`Clusters with a missing parent moved to the top level: ${issues.orphans.count} (e.g. ${issues.orphans.samples.join(', ')})`);
+            }
+            if (issues.cycles) {
+                messages.push(`Parent cycles broken: ${issues.cycles.count} (e.g. ${issues.cycles.samples.join(', ')})`);
+            }
+            if (issues.collapsed.length) {
+                messages.push(`Single top level cluster(s) skipped: ${issues.collapsed.join(' > ')}`);
+            }
+        }
+
+        info.innerText = messages.join('\n');
+        info.style.display = this.settings.hierarchy.showIssues && messages.length ? 'block' : 'none';
+    }
+
+    /**
+     * Counts an entry of the specified category of dropped or coerced data and keeps its value as a sample.
+     *
+     * @method _addDiagnostic
+     * @param {string} category - The category of the entry, one of the keys of `DIAGNOSTIC_LABELS` or a problem of `hierarchyIssues`.
+     * @param {string} sample - The value of the entry.
+     * @param {any} diagnostics - The diagnostics to add the entry to. Defaults to the diagnostics of the last conversion.
+     * @private
+     */
+    private _addDiagnostic(category: string, sample: string, diagnostics: any = this.diagnostics): void {
+        addDiagnostic(diagnostics, category, sample, ClusterMap.DIAGNOSTIC_SAMPLES);
+    }
+
+    /**
+     * Displays the diagnostics of the data dropped or coerced by the last conversion, if enabled.
+     *
+     * @method _updateDiagnostics
+     * @private
+     */
+    private _updateDiagnostics(): void {
+        const lines = Object.keys(ClusterMap.DIAGNOSTIC_LABELS).filter(category => this.diagnostics[category]).map(category => {
+            const diagnostic = this.diagnostics[category];
+            return `${ClusterMap.DIAGNOSTIC_LABELS[category]}: ${diagnostic.count} (e.g. ${diagnostic.samples.join(', ')})`;
+        });
+        if (this.diagnostics.rowLimit) {
+            lines.push(`Loading stopped at ${this.diagnostics.rowLimit} rows by Max Data Rows, more rows are available`);
+        }
+
+        this.diagnosticsInfo.innerText = lines.length ? lines.join('\n') : 'No rows or values were dropped';
+        this.diagnosticsInfo.style.display = this.settings.general.showDiagnostics ? 'block' : 'none';
+    }
+
+    /**
+     * Drops the links of a persona below the configured Relatedness Strength threshold and keeps only the configured
+     * number of strongest links, links repeated across rows count once.
+     *
+     * @method _filterLinks
+     * @param {Array<any>} links - The links of the persona.
+     * @param {boolean} hasWeights - Whether the links have a Relatedness Strength.
+     * @returns {Array<any>}
+     * @private
+     */
+    private _filterLinks(links: Array<any>, hasWeights: boolean): Array<any> {
+        const settings = this.settings.links;
+        const getWeight = link => {
+            const weight = parseFloat(link.weight);
+            return isFinite(weight) ? weight : -Infinity;
+        };
+
+        let filtered = links;
+        if (hasWeights && settings.minWeight !== null && settings.minWeight !== undefined) {
+            filtered = filtered.filter(link => getWeight(link) >= settings.minWeight);
+        }
+
+        if (settings.maxLinks > 0) {
+            const targets = {};
+            filtered.forEach(link => {
+                targets[link.target] = Math.max(targets.hasOwnProperty(link.target) ? targets[link.target] : -Infinity, getWeight(link));
+            });
+            const keys = _.uniq(filtered.map(link => link.target));
+            if (keys.length > settings.maxLinks) {
+                /* the sort is stable for equal weights, so links without weights keep their data order */
+                const kept = _.take(_.sortBy(keys, key => -targets[key]), settings.maxLinks);
+                filtered = filtered.filter(link => kept.indexOf(link.target) !== -1);
+            }
+        }
+
+        return filtered;
+    }
+
+    /**
+     * Adds the rendering options to the links of the specified personas based on their weight and the Links settings.
+     * Duplicated links are only drawn once and, if configured, links in both directions between two personas are merged
+     * into a single link. Links without rendering options are only used to position the personas.
+     *
+     * @method _styleLinks
+     * @param {any} personaMap - The aggregated personas, keyed by ID.
+     * @param {any} weightColumn - The display name and formatter of the column bound to the Relatedness Strength role, if any.
+     * @private
+     */
+    private _styleLinks(personaMap: any, weightColumn: any): void {
+        const settings = this.settings.links;
+        if (!settings.show) {
+            return;
+        }
+
+        const drawn = {};
+        const styledLinks = [];
+        Object.keys(personaMap).forEach(key => {
+            const persona = personaMap[key];
+            if (!persona.links) {
+                return;
+            }
+            persona.links.forEach(link => {
+                const linkKey = JSON.stringify([persona.id, link.target]);
+                const reverseKey = JSON.stringify([link.target, persona.id]);
+                if (drawn[linkKey] || (settings.mergePairs && drawn[reverseKey])) {
+                    return;
+                }
+                drawn[linkKey] = true;
+
+                const targetLinks = personaMap[link.target].links;
+                const reverse = settings.mergePairs && targetLinks ? targetLinks.find(l => l.target === persona.id) : null;
+                const weights = reverse ? [link.weight, reverse.weight] : [link.weight];
+                const numericWeights = weights.map(weight => parseFloat(weight)).filter(weight => isFinite(weight));
+                styledLinks.push({
+                    link: link,
+                    weight: numericWeights.length ? Math.max.apply(Math, numericWeights) : null,
+                    labels: _.uniq(weights.map(weight => weightColumn && weightColumn.formatter ? weightColumn.formatter.format(weight) : String(weight))),
+                    merged: Boolean(reverse),
+                });
+            });
+        });
+
+        const weights = styledLinks.map(styled => styled.weight).filter(weight => weight !== null);
+        const minWeight = weights.length ? Math.min.apply(Math, weights) : 0;
+        const maxWeight = weights.length ? Math.max.apply(Math, weights) : 0;
+        styledLinks.forEach(styled => {
+            const ratio = styled.weight === null ? 0 : (maxWeight > minWeight ? (styled.weight - minWeight) / (maxWeight - minWeight) : 0.5);
+            const link = styled.link;
+            link.width = settings.minWidth + (settings.maxWidth - settings.minWidth) * ratio;
+            link.color = this._mixColors(settings.lowColor.solid.color, settings.highColor.solid.color, ratio);
+            link.alpha = settings.scaleOpacity ? 0.25 + 0.75 * ratio : 1;
+            link.arrow = settings.showArrows ? (styled.merged ? 'both' : 'target') : 'none';
+            if (weightColumn) {
+                link.label = styled.labels.join(' / ');
+            }
+        });
+    }
+
+    /**
+     * Linearly interpolates between two colors and returns the result in HEX notation.
+     *
+     * @method _mixColors
+     * @param {string} fromColor - The color at ratio 0.
+     * @param {string} toColor - The color at ratio 1.
+     * @param {number} ratio - The position of the resulting color between both colors, from 0 to 1.
+     * @returns {string}
+     * @private
+     */
+    private _mixColors(fromColor: string, toColor: string, ratio: number): string {
+        const low = d3Color(fromColor);
+        const high = d3Color(toColor);
+        if (!low || !high) {
+            return this._parseColor(toColor || fromColor);
+        }
+        const a = low.rgb();
+        const b = high.rgb();
+        const mix = (channelA: number, channelB: number) => Math.round(channelA + (channelB - channelA) * ratio);
+        return this._parseColor(`rgb(${mix(a.r, b.r)}, ${mix(a.g, b.g)}, ${mix(a.b, b.b)})`);
+    }
+
+    /**
+     * Creates the data object for a level of personas.
+     *
+     * @method _createLevelData
+     * @param {string} parentId - The ID of the parent persona of the level, null for the root level.
+     * @returns {any}
+     * @private
+     */
+    private _createLevelData(parentId: string): any {
+        return {
+            parentId: parentId,
+            personas: [],
+            hiddenPersonas: [],
+            minSize: Number.MAX_SAFE_INTEGER,
+            maxSize: 0,
+        };
+    }
+
+    /**
+     * Rebuilds the "Other" persona of the specified level, if enabled, and updates the scaling factors of its personas.
+     *
+     * @method _updateLevelData
+     * @param {any} levelData - The level to update.
+     * @private
+     */
+    private _updateLevelData(levelData: any): void {
+        levelData.personas = levelData.personas.filter(persona => !persona.isOther);
+        if (this.settings.presentation.showOther && levelData.hiddenPersonas.length) {
+            levelData.personas.push(this._createOtherPersona(levelData));
+        }
+
+        levelData.minSize = Number.MAX_SAFE_INTEGER;
+        levelData.maxSize = 0;
+        levelData.personas.forEach(persona => {
+            levelData.minSize = Math.min(levelData.minSize, this._getPersonaSize(persona));
+            levelData.maxSize = Math.max(levelData.maxSize, this._getPersonaSize(persona));
+        });
+
+        const minSize = this._scaleSize(levelData.minSize);
+        const sizeRange = this._scaleSize(levelData.maxSize) - minSize;
+        levelData.personas.forEach(persona => {
+            const scalingFactor = (this._scaleSize(this._getPersonaSize(persona)) - minSize) / sizeRange;
+            persona.scalingFactor = isNaN(scalingFactor) || this.settings.presentation.sizeScale === 'uniform' ? 1 : scalingFactor;
+        });
+    }
+
+    /**
+     * Returns the value that drives the size of the specified persona: its Size By value if a column is bound to the
+     * Size By data role; otherwise, its total count.
+     *
+     * @method _getPersonaSize
+     * @param {any} persona - The processed persona.
+     * @returns {number}
+     * @private
+     */
+    private _getPersonaSize(persona: any): number {
+        if (this.sizeColumn) {
+            return typeof persona.sizeValue === 'number' ? persona.sizeValue : 0;
+        }
+        return persona.totalCount;
+    }
+
+    /**
+     * Applies the configured size scale to the specified size value. Square root scaling makes the area of the
+     * personas proportional to their size, logarithmic scaling keeps large differences from shrinking the personas.
+     *
+     * @method _scaleSize
+     * @param {number} value - The size value to scale.
+     * @returns {number}
+     * @private
+     */
+    private _scaleSize(value: number): number {
+        switch (this.settings.presentation.sizeScale) {
+            case 'sqrt':
+                return Math.sqrt(Math.max(value, 0));
+
+            case 'log':
+                return Math.log(1 + Math.max(value, 0));
+
+            default:
+                return value;
+        }
+    }
+
+    /**
+     * Compares two aggregated personas using the configured sort field and order. Ties are sorted by descending count.
+     *
+     * @method _comparePersonas
+     * @param {any} personaA - The first persona.
+     * @param {any} personaB - The second persona.
+     * @param {boolean} hasSortMeasure - Whether a column is bound to the Sort By data role.
+     * @returns {number}
+     * @private
+     */
+    private _comparePersonas(personaA: any, personaB: any, hasSortMeasure: boolean): number {
+        let sortBy = this.settings.presentation.sortBy;
+        if (sortBy === 'measure' && !hasSortMeasure) {
+            sortBy = 'count';
+        }
+
+        const values = {
+            count: [personaA.count, personaB.count],
+            label: [personaA.label, personaB.label],
+            measure: [personaA.sortValue, personaB.sortValue],
+            id: [personaA.id, personaB.id],
+        }[sortBy] || [personaA.count, personaB.count];
+
+        const compareValues = (a, b) => {
+            if (a === b) {
+                return 0;
+            }
+            /* missing values always go last */
+            if (a === null || a === undefined) {
+                return 1;
+            }
+            if (b === null || b === undefined) {
+                return -1;
+            }
+            return typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+        };
+
+        const missing = values[0] === null || values[0] === undefined || values[1] === null || values[1] === undefined;
+        let order = this.settings.presentation.sortOrder;
+        if (order !== 'ascending' && order !== 'descending') {
+            order = sortBy === 'label' || sortBy === 'id' ? 'ascending' : 'descending';
+        }
+
+        const result = compareValues(values[0], values[1]);
+        if (result !== 0) {
+            return order === 'descending' && !missing ? -result : result;
+        }
+
+        return compareValues(personaB.count, personaA.count);
+    }
+
+    /**
+     * Creates the "Other" persona aggregating the hidden personas of the specified level.
+     *
+     * @method _createOtherPersona
+     * @param {any} levelData - The level containing the hidden personas.
+     * @returns {any}
+     * @private
+     */
+    private _createOtherPersona(levelData: any): any {
+        const otherPersona = {
+            id: levelData.parentId === null ? Personas.OTHER_PERSONA_DEFAULT_ID : Personas.OTHER_PERSONA_DEFAULT_ID + '_' + levelData.parentId,
+            label: ClusterMap.OTHER_PERSONA_LABEL,
+            count: 0,
+            properties: [],
+            images: [],
+            color: this.settings.presentation.normalColor.solid.color,
+            backgroundColor: null,
+            select: null,
+            links: null,
+            tooltipValues: this.tooltipColumns.map(() => null),
+            sizeValue: null,
+        };
+
+        levelData.hiddenPersonas.forEach(persona => {
+            otherPersona.count += persona.count;
+            otherPersona.sizeValue = aggregateValue(otherPersona.sizeValue, persona.sizeValue);
+            persona.tooltipValues.forEach((value, i) => {
+                otherPersona.tooltipValues[i] = aggregateValue(otherPersona.tooltipValues[i], value);
+            });
+            persona.properties.forEach(property => {
+                let otherProperty = otherPersona.properties.find(p => p.id === property.id);
+                if (!otherProperty) {
+                    otherProperty = {
+                        count: 0,
+                        color: otherPersona.color,
+                        id: property.id,
+                    };
+                    otherPersona.properties.push(otherProperty);
+                }
+                otherProperty.count += property.count;
+            });
+        });
+
+        const processedPersona = this._processPersona(otherPersona, this.countFormatter);
+        processedPersona.isOther = true;
+        processedPersona.hiddenIds = levelData.hiddenPersonas.map(persona => persona.id);
+        processedPersona.hiddenSelect = levelData.hiddenPersonas.map(persona => persona.select);
+        return processedPersona;
+    }
+
+    /**
+     * Moves up to `count` hidden personas of the specified level to its displayed personas.
+     *
+     * @method _showHiddenPersonas
+     * @param {any} levelData - The level to update.
+     * @param {number} count - The maximum number of personas to show.
+     * @private
+     */
+    private _showHiddenPersonas(levelData: any, count: number): void {
+        levelData.hiddenPersonas.splice(0, count).forEach(persona => {
+            levelData.personas.push(this._processPersona(persona, this.countFormatter));
+        });
+        this._updateLevelData(levelData);
+    }
+
+    /**
+     * Builds the highlight data for the personas displayed in all the levels of the specified data from the
+     * highlighted counts received from PowerBI. Highlights of hidden personas are rolled up into their level's "Other"
+     * persona. Returns null if there are no highlights.
+     *
+     * @method _buildSubSelectionData
+     * @param {any} data - The converted data.
+     * @returns {any}
+     * @private
+     */
+    private _buildSubSelectionData(data: any): any {
+        if (!this.highlightedCounts || !data) {
+            return null;
+        }
+
+        const subSelectionData: any = { personas: [] };
+        const levels = [data.rootPersonas].concat(Object.keys(data.parentedPersonas).map(key => data.parentedPersonas[key]));
+        levels.forEach(levelData => {
+            levelData.personas.forEach(personaData => {
+                const ids = personaData.isOther ? personaData.hiddenIds : [personaData.id];
+                const counts = ids.map(id => this.highlightedCounts[id]).filter(Boolean);
+                if (counts.length) {
+                    const properties = personaData.properties.length ? personaData.properties : [{ id: 'ONE' }];
+                    subSelectionData.personas.push({
+                        id: personaData.id,
+                        totalCount: personaData.totalCount,
+                        properties: properties.map(p => ({
+                            id: p.id,
+                            count: counts.reduce((sum, personaCounts) => sum + (personaCounts[p.id] || 0), 0),
+                            color: p.selectedColor || this.settings.presentation.selectedColor.solid.color,
+                        })),
+                    });
                 }
+            });
+        });
+
+        return subSelectionData;
+    }
+
+    /**
+     * Displays more personas in the current level, keeping the current zoom, selection and drill path.
+     *
+     * @method _loadMorePersonas
+     * @param {number} count - The maximum number of personas to display.
+     * @private
+     */
+    private _loadMorePersonas(count: number = this.settings.presentation.loadMoreCount): void {
+        const levelData = this.dataLayerStack[this.dataLayerStack.length - 1].data;
+        if (!levelData.hiddenPersonas.length) {
+            return;
+        }
+
+        this._showHiddenPersonas(levelData, count);
+        this.subSelectionData = this._buildSubSelectionData(this.data);
+        this.personas.loadData(levelData, true, false);
+
+        const hasSelection = this.personas.personas.some(wrapper => wrapper.object.selected);
+        this.personas.personas.forEach(wrapper => {
+            wrapper.object.label.showName = this.settings.presentation.showNameLabels;
+            if (hasSelection) {
+                wrapper.object.setFocus(wrapper.object.selected, true);
+            } else if (this.subSelectionData) {
+                wrapper.object.setFocus(Boolean(this.subSelectionData.personas.find(p => p.id === wrapper.id)), true);
             }
+        });
 
-            /* scale personas per level */
-            let minSize = newData.rootPersonas.minSize;
-            let sizeRange = newData.rootPersonas.maxSize - minSize;
-            let scalingFactor = 0;
+        if (hasSelection) {
+            this.personas.highlight({ personas: [] }, true, true);
+        } else if (this.subSelectionData) {
+            this.personas.highlight(this.subSelectionData, true);
+        }
 
-            newData.rootPersonas.personas.forEach(persona => {
-                scalingFactor = (persona.totalCount - minSize) / sizeRange;
-                persona.scalingFactor = isNaN(scalingFactor) ? 1 : scalingFactor;
-            });
+        this._updateLoadMoreControl();
+        this._updateAccessibleList();
+    }
 
-            Object.keys(newData.parentedPersonas).forEach(key => {
-                const parentedData = newData.parentedPersonas[key];
-                minSize = parentedData.minSize;
-                sizeRange = parentedData.maxSize - minSize;
-                parentedData.personas.forEach(persona => {
-                    scalingFactor = (persona.totalCount - minSize) / sizeRange;
-                    persona.scalingFactor = isNaN(scalingFactor) ? 1 : scalingFactor;
-                });
-            });
+    /**
+     * Rebuilds the legend of the buckets. The legend is only displayed when the data is segmented in buckets.
+     *
+     * @method _updateLegend
+     * @private
+     */
+    private _updateLegend(): void {
+        const legend = this.legend;
+        while (legend.firstChild) {
+            legend.removeChild(legend.firstChild);
+        }
 
-            if (highlights) {
-                const subSelectionData: any = { personas: [] };
-                const rows = table.rows;
-                highlights.forEach((highlight: number, index: number) => {
-                    if (highlight !== null) {
-                        const row = rows[index];
-                        const rawPersonaId = row[columnIndices.ID[0]];
-                        let personaId = (rawPersonaId !== undefined && rawPersonaId !== null) ? rawPersonaId.toString() : null;
-
-                        if (personaId) {
-                            /* check if the persona is in the "Other" persona */
-                            /* if (this.otherPersona &&
-                             this.data.aggregates.other &&
-                             this.data.aggregates.other.metadata &&
-                             this.data.aggregates.other.metadata.personaIds.indexOf(personaId) >= 0) {
-                             personaId = Personas.OTHER_PERSONA_DEFAULT_ID;
-
-                             const newCount = subSelectionData[personaId] ? subSelectionData[personaId].bars[0].count + highlight : highlight;
-                             this._addSubSelectionInfo(subSelectionData, personaId, [newCount]);
-                             } else { */
-                            const personaData = personaMap[personaId];
-                            if (personaData) {
-                                let highlightData = subSelectionData.personas.find(hd => hd.id === personaData.id);
-                                if (!highlightData) {
-                                    highlightData = {
-                                        id: personaData.id,
-                                        totalCount: personaData.count,
-                                        properties: [],
-                                    };
-
-                                    personaData.properties.forEach(p => {
-                                        highlightData.properties.push({
-                                            id: p.id,
-                                            count: 0,
-                                            color: p.selectedColor || this.settings.presentation.selectedColor.solid.color,
-                                        });
-                                    });
-
-                                    subSelectionData.personas.push(highlightData);
-                                }
-
-                                const bucketName = this.hasBuckets ? String(row[columnIndices.Bucket[0]]) : '';
-                                const propertyID = this.hasBuckets ? bucketName : 'ONE';
-                                const property = highlightData.properties.find(p => p.id === propertyID);
-                                if (property) {
-                                    property.count += highlight;
-                                }
-                            }
-                        }
-                    }
-                });
+        if (!this.settings.legend.show || !this.hasBuckets || !this.data) {
+            legend.style.display = 'none';
+            return;
+        }
 
-                this.subSelectionData = subSelectionData;
-            } else {
-                this.subSelectionData = null;
-            }
+        const position = String(this.settings.legend.position).split('-');
+        legend.style.top = legend.style.bottom = legend.style.left = legend.style.right = '';
+        const vertical = position[0] === 'bottom' ? 'bottom' : 'top';
+        const horizontal = position[1] === 'left' ? 'left' : 'right';
+        legend.style[vertical] = '0';
+        /* leave room for the zoom controls, displayed in the bottom right corner */
+        legend.style[horizontal] = vertical === 'bottom' && horizontal === 'right' ? '40px' : '0';
+        legend.style.display = 'block';
+
+        const entries = this.buckets.map(bucket => ({ id: bucket, color: null }));
+        this._colorProperties(entries);
+        entries.forEach(entry => {
+            const isSelected = entry.id === this.legendBucket;
+            const item = document.createElement('div');
+            item.style.cursor = 'pointer';
+            item.style.whiteSpace = 'nowrap';
+            item.style.overflow = 'hidden';
+            item.style.textOverflow = 'ellipsis';
+            item.style.fontWeight = isSelected ? 'bold' : 'normal';
+            item.style.opacity = this.legendBucket === null || isSelected ? '1' : '0.5';
+            item.title = entry.id;
+
+            const swatch = document.createElement('span');
+            swatch.style.display = 'inline-block';
+            swatch.style.width = swatch.style.height = '10px';
+            swatch.style.marginRight = '4px';
+            swatch.style.verticalAlign = 'middle';
+            swatch.style.backgroundColor = isSelected ? entry['selectedColor'] : entry.color;
+            item.appendChild(swatch);
+            item.appendChild(document.createTextNode(entry.id));
+
+            item.addEventListener('click', () => this._selectBucket(entry.id));
+            legend.appendChild(item);
+        });
+    }
+
+    /**
+     * Toggles the selection of the specified bucket: highlights its segment in the personas of the current level and
+     * selects the bucket in PowerBI.
+     *
+     * @method _selectBucket
+     * @param {string} bucket - The bucket to select.
+     * @private
+     */
+    private _selectBucket(bucket: string): void {
+        if (!this.personas || !this.dataLayerStack.length) {
+            return;
+        }
 
-            return newData;
+        if (this.legendBucket === bucket) {
+            this._selectPersonas([]);
+            return;
         }
 
-        return null;
+        this.ignoreSelectionNextUpdate = Boolean(this.subSelectionData);
+        this.legendBucket = bucket;
+        this._updateLegend();
+
+        const selectArgs = this._getBucketSelectionArgs(bucket);
+        this.selectionManager.clear();
+        this.selectionManager.select(selectArgs);
+        this.lastSelectionArgs = selectArgs;
+
+        const highlightData = this._getBucketHighlightData(bucket);
+        this.personas.personas.forEach(wrapper => {
+            wrapper.object.selected = false;
+            wrapper.object.setFocus(Boolean(highlightData.personas.find(p => p.id === wrapper.id)), true);
+        });
+        this.personas.highlight(highlightData);
     }
 
     /**
-     * Enumerates the instances for the objects that appear in the PowerBI panel.
+     * Clears the bucket selected through the legend, if any.
      *
-     * @method enumerateObjectInstances
-     * @param {EnumerateVisualObjectInstancesOptions} options - Options object containing the objects to enumerate, as provided by PowerBI.
-     * @returns {VisualObjectInstance[]}
+     * @method _clearLegendSelection
+     * @private
      */
-    public enumerateObjectInstances(options: EnumerateVisualObjectInstancesOptions): VisualObjectInstance[] {
-        let instances: VisualObjectInstance[] = [{
-            selector: null,
-            objectName: options.objectName,
-            properties: {}
-        }];
+    private _clearLegendSelection(): void {
+        if (this.legendBucket !== null) {
+            this.legendBucket = null;
+            this._updateLegend();
+        }
+    }
 
-        $.extend(true, instances[0].properties, this.settings[options.objectName]);
+    /**
+     * Returns the selection ID of the specified bucket, built from the column bound to the Segmented By role, so PowerBI
+     * filters the other visuals by the bucket.
+     *
+     * @method _getBucketSelectionArgs
+     * @param {string} bucket - The bucket.
+     * @returns {ISelectionId[]}
+     * @private
+     */
+    private _getBucketSelectionArgs(bucket: string): ISelectionId[] {
+        return this.bucketSelectionIds[bucket] ? [this.bucketSelectionIds[bucket]] : [];
+    }
 
-        return instances;
+    /**
+     * Builds the highlight data displaying only the segment of the specified bucket in the personas of the current level.
+     *
+     * @method _getBucketHighlightData
+     * @param {string} bucket - The bucket.
+     * @returns {any}
+     * @private
+     */
+    private _getBucketHighlightData(bucket: string): any {
+        const personas = [];
+        this.dataLayerStack[this.dataLayerStack.length - 1].data.personas.forEach(personaData => {
+            const property = personaData.properties.find(p => p.id === bucket && p.count);
+            if (property) {
+                personas.push({
+                    id: personaData.id,
+                    totalCount: personaData.totalCount,
+                    properties: personaData.properties.map(p => ({
+                        id: p.id,
+                        count: p === property ? p.count : 0,
+                        color: p.selectedColor,
+                    })),
+                });
+            }
+        });
+        return { personas: personas };
     }
 
-    public initializePersonas(viewport) {
-        if (!this.personas) {
-            const personasOptions: any = {
-                general: {
-                    initialDeviceScale: viewport.scale * 2,
-                    breadcrumbsSegmentedBackground: false,
-                },
-                layout: {
-                    layoutType: this.hasLinks ? this.settings.presentation.layout.toString() : 'orbital',
-                    zoomControlsPosition: 'bottom-right',
-                    viewportMinZoomMultiplier: 0.15,
-                },
-                persona: {
-                    selectedBorderColor: '#000000',
-                    backgroundColor: 'rgb(73,73,73)',
-                    labelMinFontSize: 8,
-                    labelNameShow: this.settings.presentation.showNameLabels,
-                },
-            };
+    /**
+     * Updates the "load more" control to display the number of personas hidden in the current level.
+     *
+     * @method _updateLoadMoreControl
+     * @private
+     */
+    private _updateLoadMoreControl(): void {
+        if (this.personas) {
+            const layer = this.dataLayerStack[this.dataLayerStack.length - 1];
+            const hiddenCount = layer ? layer.data.hiddenPersonas.length : 0;
+            if (hiddenCount) {
+                const loadCount = Math.min(hiddenCount, this.settings.presentation.loadMoreCount);
+                this.personas.loadMoreText = 'Show ' + loadCount + ' more (' + hiddenCount + ' hidden)';
+            } else {
+                this.personas.loadMoreText = null;
+            }
+        }
+    }
 
-            this.personas = new Personas(this.element, personasOptions);
+    /**
+     * Builds the tooltip items of the specified persona: its formatted total count, the count and percentage of each
+     * bucket, its Size By value, its number of child personas and links, and the values of the columns bound to the
+     * Tooltips data role.
+     *
+     * @method _getTooltipData
+     * @param {any} personaData - The data of the persona.
+     * @returns {VisualTooltipDataItem[]}
+     * @private
+     */
+    private _getTooltipData(personaData: any): VisualTooltipDataItem[] {
+        const percentFormatter = powerbi.extensibility.utils.formatting.valueFormatter.create({format: '0.0%'});
+        const items: VisualTooltipDataItem[] = [{
+            header: personaData.label,
+            displayName: this.countDisplayName || ClusterMap.TOOLTIP_COUNT_LABEL,
+            value: personaData.formattedTotalCount || String(personaData.totalCount),
+        }];
 
-            this.personas.on(PersonaEvents.PERSONA_CLICKED, sender => {
-                this.handleSelection(sender, !sender.selected);
+        if (this.hasBuckets) {
+            personaData.properties.forEach(property => {
+                const percentage = personaData.totalCount ? property.count / personaData.totalCount : 0;
+                items.push({
+                    displayName: property.id,
+                    value: (property.formattedCount || String(property.count)) + ' (' + percentFormatter.format(percentage) + ')',
+                    color: property.color,
+                });
             });
+        }
 
-            this.personas.on(PersonaEvents.PERSONA_SUB_LEVEL_CLICKED, sender => {
-                const personaData = this.dataLayerStack[this.dataLayerStack.length - 1].data.personas.find(p => p.id === sender.id);
-                if (personaData) {
-                    const selectArgs = [personaData.select];
-                    this.selectionManager.clear();
-                    this.selectionManager.select(selectArgs);
-                    this.lastSelectionArgs = selectArgs;
-
-                    const subLayerData = this.data.parentedPersonas[sender.id];
-                    if (subLayerData) {
-                        sender.hideSubLevelBadge();
-                        this.personas.personas.forEach(wrapper => {
-                            wrapper.object.selected = false;
-                            wrapper.object.setFocus(true, false);
-                        });
-                        this.personas.unhighlight();
-
-                        this.dataLayerStack.push({
-                            data: subLayerData,
-                            select: selectArgs,
-                        });
-                        this.personas.addDataLayer(this.dataLayerStack[this.dataLayerStack.length - 1].data, sender);
-                    }
-                }
+        const childData = this.data && this.data.parentedPersonas[personaData.id];
+        if (childData) {
+            const childCount = childData.personas.filter(p => !p.isOther).length + childData.hiddenPersonas.length;
+            items.push({
+                displayName: ClusterMap.TOOLTIP_CHILD_COUNT_LABEL,
+                value: String(childCount),
             });
+        }
 
-            this.personas.on(PersonaEvents.PERSONA_POINTER_OVER, sender => {
-                const subLayerData = this.data.parentedPersonas[sender.id];
-                if (subLayerData) {
-                    sender.showSubLevelBadge();
-                }
+        if (this.sizeColumn && personaData.sizeValue !== null && personaData.sizeValue !== undefined) {
+            items.push({
+                displayName: this.sizeColumn.displayName,
+                value: this.sizeColumn.formatter ? this.sizeColumn.formatter.format(personaData.sizeValue) : String(personaData.sizeValue),
             });
+        }
 
-            this.personas.on(PersonaEvents.PERSONA_POINTER_OUT, sender => {
-                sender.hideSubLevelBadge();
+        if (this.hasLinks && !personaData.isOther) {
+            items.push({
+                displayName: ClusterMap.TOOLTIP_LINK_COUNT_LABEL,
+                value: String(personaData.links ? personaData.links.length : 0),
             });
+        }
 
-            this.personas.on(LayoutEvents.LAYOUT_BLANK_SPACE_CLICKED, () => {
-                this.personas.personas.forEach(wrapper => {
-                    wrapper.object.selected = false;
-                    wrapper.object.setFocus(true, true);
+        this.tooltipColumns.forEach((column, i) => {
+            const value = personaData.tooltipValues[i];
+            if (value !== null && value !== undefined) {
+                items.push({
+                    displayName: column.displayName,
+                    value: column.formatter ? column.formatter.format(value) : String(value),
                 });
-                this.personas.unhighlight();
-                if (this.lastSelectionArgs !== this.dataLayerStack[this.dataLayerStack.length - 1].select || this.dataLayerStack[this.dataLayerStack.length - 1].select === null) {
-                    this.selectionManager.clear();
-                    if (this.dataLayerStack[this.dataLayerStack.length - 1].select) {
-                        this.selectionManager.select(this.dataLayerStack[this.dataLayerStack.length - 1].select);
-                        this.lastSelectionArgs = this.dataLayerStack[this.dataLayerStack.length - 1].select;
-                    }
-                }
-            });
+            }
+        });
 
-            this.personas.on(BreadcrumbEvents.LAYOUT_BREADCRUMB_CLICKED, (sender, index) => {
-                if (index === this.personas.breadcrumbs.length - 1) {
-                    this.personas.autoZoom();
-                } else if (index >= 0 && this.personas.breadcrumbs.length > 1) {
-                    const toRemove = this.personas.breadcrumbs.length - index - 1;
-                    this.personas.removeDataLayer(toRemove);
-                    this.dataLayerStack.splice(-toRemove, toRemove);
-                    this.selectionManager.clear();
-                    if (this.dataLayerStack[this.dataLayerStack.length - 1].select) {
-                        this.selectionManager.select(this.dataLayerStack[this.dataLayerStack.length - 1].select);
-                        this.lastSelectionArgs = this.dataLayerStack[this.dataLayerStack.length - 1].select;
-                    }
-                }
+        return items;
+    }
+
+    /**
+     * Displays the tooltip of the specified persona using the host's tooltip service.
+     *
+     * @method _showTooltip
+     * @param {any} sender - The persona for which the tooltip will be displayed.
+     * @private
+     */
+    private _showTooltip(sender: any): void {
+        if (!this.tooltipService || !this.tooltipService.enabled()) {
+            return;
+        }
+
+        const personaData = this.dataLayerStack[this.dataLayerStack.length - 1].data.personas.find(p => p.id === sender.id);
+        if (personaData) {
+            this.tooltipIdentities = this._getSelectionArgs(personaData);
+            this.tooltipService.show({
+                coordinates: this.tooltipCoordinates,
+                isTouchEvent: false,
+                dataItems: this._getTooltipData(personaData),
+                identities: this.tooltipIdentities as any,
             });
+        }
+    }
 
-            if (this.data) {
-                this.lastSelectionArgs = null;
-                this.dataLayerStack.length = 0;
-                this.dataLayerStack.push({
-                    data: this.data.rootPersonas,
-                    select: null
-                });
-                this.personas.loadData(this.dataLayerStack[this.dataLayerStack.length - 1].data, false);
-                this.personas.displayBreadcrumbs = Object.keys(this.data.parentedPersonas).length > 0;
-                if (this.subSelectionData) {
-                    this.lastSelectionArgs = null;
-                    this.personas.highlight(this.subSelectionData, true);
-                }
-            } else {
-                this.element.style.visibility = 'hidden';
-            }
+    /**
+     * Updates the mouse coordinates and moves the displayed tooltip, if any.
+     *
+     * @method _moveTooltip
+     * @param {MouseEvent} event - The mouse event.
+     * @private
+     */
+    private _moveTooltip(event: MouseEvent): void {
+        const rect = this.element.getBoundingClientRect();
+        this.tooltipCoordinates = [event.clientX - rect.left, event.clientY - rect.top];
+        if (this.tooltipIdentities) {
+            this.tooltipService.move({
+                coordinates: this.tooltipCoordinates,
+                isTouchEvent: false,
+                identities: this.tooltipIdentities as any,
+            });
+        }
+    }
 
-            this._updateScale(viewport);
+    /**
+     * Hides the displayed tooltip, if any.
+     *
+     * @method _hideTooltip
+     * @private
+     */
+    private _hideTooltip(): void {
+        if (this.tooltipIdentities) {
+            this.tooltipIdentities = null;
+            this.tooltipService.hide({
+                isTouchEvent: false,
+                immediately: true,
+            });
         }
     }
 
+    /**
+     * Returns the selection IDs to send to PowerBI when the specified persona is selected.
+     *
+     * @method _getSelectionArgs
+     * @param {any} personaData - The data of the selected persona.
+     * @returns {ISelectionId[]}
+     * @private
+     */
+    private _getSelectionArgs(personaData: any): ISelectionId[] {
+        return personaData.isOther ? personaData.hiddenSelect : [personaData.select];
+    }
+
     /**
      * Removes any HTML tags from `text` and returns the result.
      *
@@ -1081,29 +3959,104 @@ export default class ClusterMap implements IVisual {
     }
 
     /**
-     * If the visual has data buckets, this function assigns interpolated colors to the provided Persona properties.
+     * Parses the provided color value (hex, rgb() or a named color) and returns it in HEX notation.
+     * Returns null if the value is not a valid color.
+     *
+     * @method _parseColor
+     * @param {any} value - The color value to parse.
+     * @returns {string|null}
+     * @private
+     */
+    private _parseColor(value: any): string {
+        if (value === null || value === undefined) {
+            return null;
+        }
+
+        const parsed = d3Color(String(value).trim());
+        if (!parsed || !parsed.displayable()) {
+            return null;
+        }
+
+        const rgb = parsed.rgb();
+        const toHex = (channel: number) => {
+            const hex = Math.round(Math.max(0, Math.min(255, channel))).toString(16);
+            return hex.length < 2 ? '0' + hex : hex;
+        };
+        return '#' + toHex(rgb.r) + toHex(rgb.g) + toHex(rgb.b);
+    }
+
+    /**
+     * If the visual has data buckets, this function assigns colors to the provided Persona properties. Buckets use their
+     * custom color from the format pane if any; otherwise, a color from the host's palette or interpolated from the base
+     * color. The selected colors of buckets with a custom or palette color are derived from it.
      *
      * @method _colorProperties
      * @param {any} properties - The properties to which colors will be assigned.
+     * @param {string=} baseColor - The color, in HEX notation, used to build the palette. Defaults to the configured gauge color.
      * @private
      */
-    private _colorProperties(properties) {
+    private _colorProperties(properties, baseColor: string = this.settings.presentation.normalColor.solid.color) {
         if (this.hasBuckets) {
             const colorCount = this.buckets.length <= 3 ? 3 : this.buckets.length;
-            const palette = this._colorInterpolation(this.settings.presentation.normalColor.solid.color, colorCount, false);
+            const palette = this._colorInterpolation(baseColor, colorCount, false);
             const selectedPalette = this._colorInterpolation(this.settings.presentation.selectedColor.solid.color, colorCount, true);
+            const hostColors = this.settings.bucketColors.usePalette && this.host.colors && this.host.colors.length ? this.host.colors : null;
 
             for (let i = 0, n = properties.length; i < n; ++i) {
                 const index = this.buckets.indexOf(properties[i].id);
-                let rgb = palette[index];
-                properties[i].color = 'rgb(' + rgb.r + ',' + rgb.g + ',' + rgb.b + ')';
+                const color = this._getBucketColor(properties[i].id) || (hostColors ? hostColors[index % hostColors.length].value : null);
+                if (color) {
+                    properties[i].color = color;
+                    properties[i].selectedColor = this._getSelectedColor(color);
+                } else {
+                    let rgb = palette[index];
+                    properties[i].color = 'rgb(' + rgb.r + ',' + rgb.g + ',' + rgb.b + ')';
 
-                rgb = selectedPalette[index];
-                properties[i].selectedColor = 'rgb(' + rgb.r + ',' + rgb.g + ',' + rgb.b + ')';
+                    rgb = selectedPalette[index];
+                    properties[i].selectedColor = 'rgb(' + rgb.r + ',' + rgb.g + ',' + rgb.b + ')';
+                }
             }
         }
     }
 
+    /**
+     * Returns the custom color picked in the format pane for the specified bucket, null if there's none.
+     *
+     * @method _getBucketColor
+     * @param {string} bucket - The bucket.
+     * @returns {string|null}
+     * @private
+     */
+    private _getBucketColor(bucket: string): string {
+        const instance = this.settings.bucketColors.$instances[bucket];
+        return instance && instance.fill && instance.fill.solid ? this._parseColor(instance.fill.solid.color) : null;
+    }
+
+    /**
+     * Returns a copy of the custom bucket colors, keyed by bucket, contained in the specified PowerBI objects.
+     *
+     * @method _getBucketColorInstances
+     * @param {any} objects - The objects, as found in the metadata of the data view.
+     * @returns {any}
+     * @private
+     */
+    private _getBucketColorInstances(objects: any): any {
+        return $.extend(true, {}, objects.bucketColors && objects.bucketColors.$instances);
+    }
+
+    /**
+     * Derives the color used when a gauge segment of the specified color is selected.
+     *
+     * @method _getSelectedColor
+     * @param {string} color - The color of the segment.
+     * @returns {string}
+     * @private
+     */
+    private _getSelectedColor(color: string): string {
+        const parsed = d3Color(color);
+        return parsed ? this._parseColor(parsed.darker(0.8).toString()) : color;
+    }
+
     private _updateScale(viewport) {
         if (this.personas && viewport.hasOwnProperty('scale')) {
             this.personas.deviceScale = viewport.scale * 2;
@@ -1113,62 +4066,76 @@ export default class ClusterMap implements IVisual {
     }
 
     private loadSelectionFromPowerBI() {
-        if (this.lastSelectionArgs && this.lastSelectionArgs[0]) {
-            const key = this.lastSelectionArgs[0].key;
-            const personaData = this.dataLayerStack[this.dataLayerStack.length - 1].data.personas.find(p => p.select.key === key);
-            if (personaData) {
-                const sender = this.personas.personas.find(p => p.id === personaData.id);
-                if (sender) {
-                    this.handleSelection(sender.object, true);
-                }
+        if (this.lastSelectionArgs && this.lastSelectionArgs.length && this.legendBucket === null) {
+            const ids = this._getSelectedPersonaIds(this.lastSelectionArgs);
+            if (ids.length) {
+                this._selectPersonas(ids);
             }
         }
     }
 
-    private handleSelection(sender, shouldSelect) {
-        this.ignoreSelectionNextUpdate = Boolean(this.subSelectionData);
+    private handleSelection(sender, shouldSelect, multiSelect = false) {
+        let ids: string[] = [];
+        if (multiSelect) {
+            ids = this.personas.personas.filter(wrapper => wrapper.object.selected && wrapper.object !== sender).map(wrapper => wrapper.id);
+        }
 
-        this.selectionManager.clear();
         if (shouldSelect) {
-            const personaData = this.dataLayerStack[this.dataLayerStack.length - 1].data.personas.find(p => p.id === sender.id);
-            const properties = [];
-            if (personaData) {
-                const selectArgs = [personaData.select] as ISelectionId;
-                this.selectionManager.select(selectArgs);
-                this.lastSelectionArgs = selectArgs;
-                this.personas.personas.forEach(wrapper => {
-                    if (wrapper.object !== sender) {
-                        wrapper.object.selected = false ;
-                        wrapper.object.setFocus(false, true);
-                    }
-                });
-                sender.selected = true;
-                sender.setFocus(true, true);
+            ids.push(sender.id);
+        }
 
-                if (this.hasBuckets) {
-                    personaData.properties.forEach(property => {
-                        properties.push({
-                            count: property.count / personaData.totalCount,
-                            color: property.selectedColor,
-                        });
-                    });
-                } else {
-                    properties.push({
-                        count: 1,
-                        color: this.settings.presentation.selectedColor.solid.color,
-                    });
-                }
+        this._selectPersonas(ids);
+    }
 
-                this.personas.highlight({
-                    personas: [
-                        {
-                            id: sender.id,
-                            totalCount: 1,
-                            properties: properties,
-                        }
-                    ]
-                });
-            }
+    /**
+     * Returns the IDs of the personas, in the current level, that match the specified selection. "Other" personas are
+     * only matched when all of their hidden personas are selected.
+     *
+     * @method _getSelectedPersonaIds
+     * @param {ISelectionId[]} selectionArgs - The selection IDs, as sent to or received from PowerBI.
+     * @returns {string[]}
+     * @private
+     */
+    private _getSelectedPersonaIds(selectionArgs: any[]): string[] {
+        const keys = selectionArgs.filter(Boolean).map(arg => arg.key);
+        const isSelected = select => Boolean(select) && keys.indexOf(select.key) !== -1;
+        return this.dataLayerStack[this.dataLayerStack.length - 1].data.personas.filter(personaData => {
+            return personaData.isOther ? personaData.hiddenSelect.every(isSelected) : isSelected(personaData.select);
+        }).map(personaData => personaData.id);
+    }
+
+    /**
+     * Selects the personas with the specified IDs in the current level, sends the selection to PowerBI and highlights
+     * them. If no IDs are specified, the selection is cleared.
+     *
+     * @method _selectPersonas
+     * @param {string[]} ids - The IDs of the personas to select.
+     * @private
+     */
+    private _selectPersonas(ids: string[]) {
+        this.ignoreSelectionNextUpdate = Boolean(this.subSelectionData);
+        this._clearLegendSelection();
+
+        this.selectionManager.clear();
+        const selectedData = this.dataLayerStack[this.dataLayerStack.length - 1].data.personas.filter(p => ids.indexOf(p.id) !== -1);
+        if (selectedData.length) {
+            const selectArgs = [];
+            selectedData.forEach(personaData => selectArgs.push.apply(selectArgs, this._getSelectionArgs(personaData)));
+            this.selectionManager.select(selectArgs);
+            this.lastSelectionArgs = selectArgs;
+            this.personas.personas.forEach(wrapper => {
+                const selected = ids.indexOf(wrapper.id) !== -1;
+                wrapper.object.selected = selected;
+                wrapper.object.setFocus(selected, true);
+            });
+
+            this.personas.highlight({
+                personas: selectedData.map(personaData => ({
+                    id: personaData.id,
+                    totalCount: 1,
+                    properties: this._getSelectedProperties(personaData),
+                })),
+            });
         } else {
             this.personas.personas.forEach(wrapper => {
                 wrapper.object.selected = false;
@@ -1181,5 +4148,28 @@ export default class ClusterMap implements IVisual {
             }
         }
 
+        this._updateAccessibleList();
+    }
+
+    /**
+     * Returns the gauge properties used to highlight the specified persona when it is selected.
+     *
+     * @method _getSelectedProperties
+     * @param {any} personaData - The data of the selected persona.
+     * @returns {Array}
+     * @private
+     */
+    private _getSelectedProperties(personaData: any): Array<any> {
+        if (this.hasBuckets) {
+            return personaData.properties.map(property => ({
+                count: property.count / personaData.totalCount,
+                color: property.selectedColor,
+            }));
+        }
+
+        return [{
+            count: 1,
+            color: this.settings.presentation.selectedColor.solid.color,
+        }];
     }
 }
@@ -0,0 +1,385 @@
+/**
+ * Copyright (c) 2016 Uncharted Software Inc.
+ * http://www.uncharted.software/
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is furnished to do
+ * so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+// copied from powerbi.extensibility.utils.dataview
+// https://github.com/Microsoft/powerbi-visuals-utils-dataviewutils/blob/45e4408444f9792f94c4a49d0643639d95ece6ba/src/validationHelper.ts#L29
+export function isImageUrlAllowed(url: string): boolean {
+    // Excludes all URLs that don't contain .gif .jpg .png or .svg extensions and don't start from "http(s)://".
+    // Base64 incoded images are allowable too.
+    return (/^https?:\/\/.+\.(gif|jpg|png|svg)$/i).test(url) || (/^data:image\/(gif|jpeg|png|svg\+xml);base64,/i).test(url);
+}
+
+/**
+ * Returns the ID of the persona at the specified path of a hierarchy bound to the Cluster ID data role.
+ *
+ * @method getHierarchyId
+ * @param {Array<any>} path - The values of the levels of the hierarchy, from the top level down.
+ * @returns {string}
+ */
+export function getHierarchyId(path: Array<any>): string {
+    return JSON.stringify(path.map(value => value === null || value === undefined ? null : String(value)));
+}
+
+/**
+ * Aggregates a value of a measure column, such as the ones bound to the Tooltips data role. Numbers are added up,
+ * any other value is only kept if no value has been aggregated yet.
+ *
+ * @method aggregateValue
+ * @param {any} current - The value aggregated so far, null if none.
+ * @param {any} value - The value to aggregate.
+ * @returns {any}
+ */
+export function aggregateValue(current: any, value: any): any {
+    if (value === null || value === undefined) {
+        return current;
+    }
+
+    if (typeof value === 'number' && (current === null || typeof current === 'number')) {
+        return (current || 0) + value;
+    }
+
+    return current === null ? value : current;
+}
+
+/**
+ * Adds the specified value to a 32-bit FNV-1a hash.
+ *
+ * @method hashValue
+ * @param {number} hash - The hash of the values added so far.
+ * @param {any} value - The value to add.
+ * @returns {number}
+ */
+export function hashValue(hash: number, value: any): number {
+    const text = value === null || value === undefined ? '\u0000' : String(value);
+    let result = hash;
+    for (let i = 0, n = text.length; i < n; ++i) {
+        result = Math.imul(result ^ text.charCodeAt(i), 16777619);
+    }
+    /* separate the values so the same characters split differently hash differently */
+    return Math.imul(result ^ 0x1f, 16777619);
+}
+
+/**
+ * Counts entries of the specified category of dropped or coerced data and keeps their value as a sample.
+ *
+ * @method addDiagnostic
+ * @param {any} diagnostics - The diagnostics to add the entries to.
+ * @param {string} category - The category of the entries.
+ * @param {string} sample - The value of the entries.
+ * @param {number} maxSamples - The maximum number of samples kept for each category.
+ * @param {number} count - The number of entries, defaults to 1.
+ */
+export function addDiagnostic(diagnostics: any, category: string, sample: string, maxSamples: number, count: number = 1): void {
+    const diagnostic = diagnostics[category] || (diagnostics[category] = { count: 0, samples: [] });
+    diagnostic.count += count;
+    if (diagnostic.samples.length < maxSamples && diagnostic.samples.indexOf(sample) === -1) {
+        diagnostic.samples.push(sample);
+    }
+}
+
+/**
+ * Folds the specified rows into an aggregation of personas. The aggregated personas keep the raw values of the rows,
+ * their labels, selection IDs and colors are resolved by the visual once the rows are folded. The rows are folded on the
+ * UI thread or, for large data views, in the Web Worker of the visual.
+ *
+ * @method foldRows
+ * @param {any} aggregation - The aggregation to fold the rows into, modified in place.
+ * @param {Array<Array<any>>} rows - The rows following the rows already folded into the aggregation.
+ * @param {Array<number>} highlights - The highlighted counts of the rows, null if nothing is highlighted.
+ * @param {Function} onProgress - Called with the fraction of the rows folded so far, optional.
+ * @returns {any} The aggregation, the IDs of the personas added or changed by the rows, the leaf IDs they added and the
+ * number of rows of each raw color.
+ */
+export function foldRows(aggregation: any, rows: Array<Array<any>>, highlights: Array<number>, onProgress?: (progress: number) => void): any {
+    const columnIndices = aggregation.columnIndices;
+    const hierarchyLevels = aggregation.hierarchyLevels;
+    const personaMap = aggregation.personaMap;
+    const countedEntries = aggregation.countedEntries;
+    const leafIds = aggregation.leafIds;
+    const firstRow = aggregation.rowCount;
+    const added = [];
+    const changed = {};
+    const addedLeafIds = {};
+    const colors = {};
+    const diagnose = (category: string, sample: string) => addDiagnostic(aggregation.diagnostics, category, sample, aggregation.maxSamples);
+
+    rows.forEach((row, rowIndex) => {
+        let ID: string;
+        let path: Array<any>;
+        let rawName: any;
+        let count: number;
+
+        /* report the progress every thousand rows */
+        if (onProgress && rowIndex && rowIndex % 1000 === 0) {
+            onProgress(rowIndex / rows.length);
+        }
+
+        aggregation.hash = row.reduce((hash, value) => hashValue(hash, value), aggregation.hash);
+
+        try {
+            path = columnIndices.ID.map(index => row[index]);
+            ID = hierarchyLevels > 1 ? getHierarchyId(path) : row[columnIndices.ID[0]].toString();
+            rawName = row[columnIndices.Name[0]];
+            count = row[columnIndices.Count[0]] as number;
+        } catch (e) {
+            diagnose('skippedRows', `Row ${firstRow + rowIndex + 1}`);
+            return;
+        }
+
+        let parent: string = null;
+        if (hierarchyLevels > 1) {
+            parent = getHierarchyId(path.slice(0, -1));
+            const leaf = String(path[path.length - 1]);
+            if (!leafIds[leaf]) {
+                leafIds[leaf] = addedLeafIds[leaf] = ID;
+            }
+        } else {
+            const rawParent: any = columnIndices.ParentID.length ? row[columnIndices.ParentID[0]] : null;
+            parent = rawParent !== null && rawParent !== undefined && rawParent !== 'null' && rawParent.toString() !== ID ? rawParent.toString() : null;
+        }
+
+        /* colors are parsed by the visual, count the rows of each raw color for the diagnostics */
+        const rawColor = columnIndices.BackgroundColor.length ? row[columnIndices.BackgroundColor[0]] : null;
+        const color = rawColor !== null && rawColor !== undefined && rawColor !== '' ? String(rawColor) : null;
+        if (color !== null) {
+            colors[color] = (colors[color] || 0) + 1;
+        }
+
+        columnIndices.ImageUrl.forEach(index => {
+            const url = row[index];
+            if (url !== null && url !== undefined && url !== '' && !isImageUrlAllowed(<string>url)) {
+                diagnose('rejectedImages', String(url));
+            }
+        });
+
+        const bucketName = aggregation.hasBuckets ? String(row[columnIndices.Bucket[0]]) : '';
+        if (aggregation.buckets.indexOf(bucketName) === -1) {
+            aggregation.buckets.push(bucketName);
+            aggregation.bucketRows[bucketName] = firstRow + rowIndex;
+        }
+
+        const countKey = ID + String(rawName) + bucketName;
+        const isNewEntry = !countedEntries.hasOwnProperty(countKey);
+
+        /* missing and non-numeric counts are counted as 0 */
+        count = parseFloat(String(count));
+        if (isNaN(count)) {
+            if (isNewEntry) {
+                diagnose('invalidCounts', String(rawName));
+            }
+            count = 0;
+        }
+
+        /* the counts and measures of a persona are rolled up to the personas of the upper levels of the hierarchy */
+        const entries = [{ id: ID, rawLabel: rawName, parent: parent, levelCount: hierarchyLevels, color: color }];
+        for (let level = hierarchyLevels - 1; level > 0; --level) {
+            entries.push({
+                id: getHierarchyId(path.slice(0, level)),
+                rawLabel: path[level - 1],
+                parent: level > 1 ? getHierarchyId(path.slice(0, level - 1)) : null,
+                levelCount: level,
+                color: null,
+            });
+        }
+
+        entries.forEach(entry => {
+            let persona = null;
+            if (personaMap[entry.id]) {
+                persona = personaMap[entry.id];
+                if (isNewEntry) {
+                    persona.count += count;
+                }
+                if (entry.color !== null && persona.colorValues.indexOf(entry.color) === -1) {
+                    persona.colorValues.push(entry.color);
+                }
+            } else {
+                persona = {
+                    id: entry.id,
+                    rawLabel: entry.rawLabel,
+                    levelCount: entry.levelCount,
+                    rowIndex: firstRow + rowIndex,
+                    count: count,
+                    properties: [],
+                    images: [],
+                    colorValues: entry.color !== null ? [entry.color] : [],
+                    links: null,
+                    parent: entry.parent,
+                    tooltipValues: columnIndices.Tooltips.map(() => null),
+                    sortValue: null,
+                    sizeValue: null,
+                    xSum: 0,
+                    ySum: 0,
+                    positionCount: 0,
+                };
+                personaMap[entry.id] = persona;
+                added.push(entry.id);
+            }
+            changed[entry.id] = true;
+
+            /* build the property key */
+            if (isNewEntry) {
+                if (aggregation.hasBuckets || !persona.properties.length) {
+                    const propertyID = aggregation.hasBuckets ? bucketName : 'ONE';
+                    const propertyIndex = persona.properties.findIndex(p => p.id === propertyID);
+                    let property = null;
+
+                    if (propertyIndex === -1) {
+                        property = {
+                            count: 0,
+                            id: propertyID
+                        };
+                        persona.properties.push(property);
+                    } else {
+                        property = persona.properties[propertyIndex];
+                    }
+
+                    property.count += count;
+                } else {
+                    persona.properties[0].count += count;
+                }
+                columnIndices.Tooltips.forEach((index, i) => {
+                    persona.tooltipValues[i] = aggregateValue(persona.tooltipValues[i], row[index]);
+                });
+                if (columnIndices.SortBy.length) {
+                    persona.sortValue = aggregateValue(persona.sortValue, row[columnIndices.SortBy[0]]);
+                }
+                if (columnIndices.SizeBy.length) {
+                    persona.sizeValue = aggregateValue(persona.sizeValue, row[columnIndices.SizeBy[0]]);
+                }
+                /* personas placed by several buckets, or rolled up from several children, sit at their average position */
+                if (columnIndices.PositionX.length && columnIndices.PositionY.length) {
+                    const x = parseFloat(String(row[columnIndices.PositionX[0]]));
+                    const y = parseFloat(String(row[columnIndices.PositionY[0]]));
+                    if (isFinite(x) && isFinite(y)) {
+                        persona.xSum += x;
+                        persona.ySum += y;
+                        persona.positionCount += 1;
+                        aggregation.hasPositions = true;
+                    }
+                }
+            }
+
+            if (columnIndices.ImageUrl.length) {
+                columnIndices.ImageUrl.forEach(index => {
+                    if (persona.images.length < aggregation.maxImages &&
+                        persona.images.indexOf(row[index]) < 0 &&
+                        isImageUrlAllowed(<string>row[index])) {
+                        persona.images.push(row[index]);
+                    }
+                });
+            }
+        });
+
+        if (isNewEntry) {
+            countedEntries[countKey] = count;
+        }
+
+        if (columnIndices.LinkTo.length) {
+            const persona = personaMap[ID];
+            const linkID: string = row[columnIndices.LinkTo[0]].toString();
+            const linkStrength = columnIndices.LinkWeight.length ? row[columnIndices.LinkWeight[0]] : 0;
+
+            if (!persona.links) {
+                persona.links = [];
+            }
+            changed[ID] = true;
+
+            persona.links.push({
+                target: linkID,
+                weight: linkStrength,
+            });
+        }
+    });
+
+    if (highlights) {
+        const highlightedCounts = aggregation.highlightedCounts || (aggregation.highlightedCounts = {});
+        highlights.forEach((highlight: number, index: number) => {
+            if (highlight !== null) {
+                const row = rows[index];
+                const rawPersonaId = row[columnIndices.ID[0]];
+                if (rawPersonaId === undefined || rawPersonaId === null) {
+                    return;
+                }
+
+                /* like the counts, the highlights of a persona are rolled up to the personas of the upper levels of the hierarchy */
+                const path = columnIndices.ID.map(column => row[column]);
+                const personaIds = hierarchyLevels > 1 ? path.map((value, level) => getHierarchyId(path.slice(0, level + 1))) : [rawPersonaId.toString()];
+                const propertyID = aggregation.hasBuckets ? String(row[columnIndices.Bucket[0]]) : 'ONE';
+                personaIds.filter(personaId => personaMap.hasOwnProperty(personaId)).forEach(personaId => {
+                    const counts = highlightedCounts[personaId] || (highlightedCounts[personaId] = {});
+                    counts[propertyID] = (counts[propertyID] || 0) + highlight;
+                });
+            }
+        });
+    }
+
+    aggregation.rowCount += rows.length;
+    return {
+        aggregation: aggregation,
+        added: added,
+        changed: Object.keys(changed),
+        leafIds: addedLeafIds,
+        colors: colors,
+    };
+}
+
+/**
+ * Creates the message handler of the Web Worker folding rows off the UI thread. The handler posts the progress and the
+ * result of each request back with the ID of the request. It keeps the aggregation posted with the first rows and folds
+ * the rows posted next into it, so only the rows of each segment are posted to the worker and only the personas they
+ * changed are posted back.
+ *
+ * @method createFoldHandler
+ * @param {Function} post - Posts a message back to the visual.
+ * @returns {Function}
+ */
+export function createFoldHandler(post: (message: any) => void): (e: MessageEvent) => void {
+    let aggregation = null;
+    return (e: MessageEvent) => {
+        const request = e.data;
+        aggregation = request.aggregation || aggregation;
+        const fold = foldRows(aggregation, request.rows, request.highlights, progress => {
+            post({ id: request.id, progress: progress });
+        });
+        const personas = {};
+        fold.changed.forEach(id => {
+            personas[id] = aggregation.personaMap[id];
+        });
+        post({
+            id: request.id,
+            aggregation: {
+                buckets: aggregation.buckets,
+                bucketRows: aggregation.bucketRows,
+                hasPositions: aggregation.hasPositions,
+                highlightedCounts: aggregation.highlightedCounts,
+                diagnostics: aggregation.diagnostics,
+                rowCount: aggregation.rowCount,
+                hash: aggregation.hash,
+            },
+            personas: personas,
+            leafIds: fold.leafIds,
+            added: fold.added,
+            colors: fold.colors,
+        });
+    };
+}
@@ -14,6 +14,9 @@ const UTILS = [
 module.exports = {
     entry: UTILS.concat(ENTRY),
     devtool: 'eval',
+    resolve: {
+        extensions: ['.js', '.json', '.ts'],
+    },
     module: {
         loaders: [
             {
@@ -30,6 +33,10 @@ module.exports = {
                     ]
                 }
             },
+            {
+                test: /\.worker\.ts$/,
+                loader: path.join(__dirname, 'bin', 'workerLoader'),
+            },
             {
                 test: /\.ts?$/,
                 loaders: [{